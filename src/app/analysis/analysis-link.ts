@@ -0,0 +1,23 @@
+// Games reach the analysis board through its URL, so they open in a new
+// tab without disturbing the game being played
+
+// "/analysis?pgn=…&ply=12"; a null ply opens the final position
+export function analysisUrl(pgn: string, ply: number | null): string {
+  const params = new URLSearchParams({ pgn });
+  if (ply !== null) params.set('ply', String(ply));
+  return `/analysis?${params}`;
+}
+
+// The game and ply from the analysis page's query string, if any
+export function readAnalysisLink(
+  search: string,
+): { pgn: string; ply: number | null } | null {
+  const params = new URLSearchParams(search);
+  const pgn = params.get('pgn');
+  if (!pgn) return null;
+  const ply = Number(params.get('ply'));
+  return {
+    pgn,
+    ply: params.has('ply') && Number.isInteger(ply) && ply >= 0 ? ply : null,
+  };
+}
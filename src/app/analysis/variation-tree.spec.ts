@@ -0,0 +1,81 @@
+import { VariationTree } from './variation-tree';
+
+function playAll(tree: VariationTree, moves: string[]): void {
+  for (const move of moves) tree.play(move);
+}
+
+describe('VariationTree', () => {
+  it('branches into a variation and follows existing moves', () => {
+    const tree = new VariationTree();
+    playAll(tree, ['e4', 'e5', 'Nf3']);
+    tree.toPly(1);
+    tree.play('c5');
+
+    const afterE4 = tree.root.children[0];
+    expect(afterE4.children.map((n) => n.san)).toEqual(['e5', 'c5']);
+    expect(tree.isMainLine(tree.current)).toBeFalse();
+
+    tree.toPly(1);
+    tree.play('e5'); // already there: no duplicate
+    expect(afterE4.children.length).toBe(2);
+    expect(tree.current.children[0].san).toBe('Nf3');
+  });
+
+  it('promotes and deletes variations', () => {
+    const tree = new VariationTree();
+    playAll(tree, ['e4', 'e5']);
+    tree.toPly(1);
+    playAll(tree, ['c5', 'Nf3']);
+    const sicilian = tree.current;
+
+    tree.promote(sicilian);
+    expect(tree.root.children[0].children.map((n) => n.san)).toEqual([
+      'c5',
+      'e5',
+    ]);
+    expect(tree.isMainLine(sicilian)).toBeTrue();
+
+    tree.remove(sicilian.parent!);
+    expect(tree.current.san).toBe('e4'); // was inside the deleted line
+    expect(tree.current.children.map((n) => n.san)).toEqual(['e5']);
+  });
+
+  it('writes variations, comments and NAGs to PGN', () => {
+    const tree = new VariationTree();
+    playAll(tree, ['e4', 'e5', 'Nf3']);
+    tree.toggleNag(tree.root.children[0], 1);
+    tree.setComment(tree.root.children[0].children[0], 'solid {reply}');
+    tree.toPly(1);
+    playAll(tree, ['c5', 'Nf3']);
+
+    expect(tree.pgn()).toBe(
+      '[Event "Analysis"]\n[Result "*"]\n\n' +
+        '1. e4 $1 e5 {solid reply} (1... c5 2. Nf3) 2. Nf3 *\n',
+    );
+  });
+
+  it('reads a PGN back and survives a save and restore', () => {
+    const tree = VariationTree.fromText(
+      '[White "Ann"]\n[Result "1-0"]\n\n1. f3 {weak} e5 2. g4 Qh4# 1-0',
+    );
+    expect(tree.headers['White']).toBe('Ann');
+    expect(tree.root.children[0].comment).toBe('weak');
+
+    tree.toPly(1);
+    tree.play('Nc6');
+    tree.toggleNag(tree.current, 5);
+    const copy = VariationTree.restore(tree.save())!;
+
+    expect(copy.pgn()).toBe(tree.pgn());
+    expect(copy.current.san).toBe('Nc6');
+    expect(copy.pgn()).toContain('(1... Nc6 $5)');
+  });
+
+  it('refuses games of other variants', () => {
+    expect(() =>
+      VariationTree.fromText('[Variant "Chess960"]\n\n1. e4 *'),
+    ).toThrow();
+    const tree = VariationTree.fromText('[Variant "Standard"]\n\n1. e4 *');
+    expect(tree.root.children[0].san).toBe('e4');
+  });
+});
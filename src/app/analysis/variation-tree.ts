@@ -0,0 +1,313 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { playMove } from '../chess/moves';
+import { MoveInput, Role } from '../types/messages';
+
+// Move annotations offered in the UI, as PGN NAG numbers
+export const MOVE_NAGS: { nag: number; symbol: string; name: string }[] = [
+  { nag: 1, symbol: '!', name: 'Good move' },
+  { nag: 2, symbol: '?', name: 'Mistake' },
+  { nag: 3, symbol: '!!', name: 'Brilliant move' },
+  { nag: 4, symbol: '??', name: 'Blunder' },
+  { nag: 5, symbol: '!?', name: 'Interesting move' },
+  { nag: 6, symbol: '?!', name: 'Dubious move' },
+];
+
+export interface VariationNode {
+  id: number;
+  san: string; // '' on the root
+  fen: string; // position after this move
+  comment: string;
+  nags: number[];
+  parent: VariationNode | null;
+  children: VariationNode[]; // children[0] continues this line, the rest are variations
+}
+
+// Plain-JSON form of a tree, for local storage
+export interface SavedTree {
+  startFen: string;
+  headers: Record<string, string>;
+  moves: SavedMove[]; // the root's children
+  path: string[]; // SAN moves from the start to the selected node
+}
+interface SavedMove {
+  san: string;
+  comment?: string;
+  nags?: number[];
+  children: SavedMove[];
+}
+
+// Headers we always write ourselves, so imported values are dropped
+const OWN_HEADERS = ['SetUp', 'FEN'];
+
+// A game with its variations, comments and NAGs, built move by move on
+// chess.js. `current` is the position the board shows.
+export class VariationTree {
+  readonly root: VariationNode;
+  current: VariationNode;
+  headers: Record<string, string> = {}; // carried into the exported PGN
+  private nextId = 0;
+
+  constructor(readonly startFen: string = DEFAULT_POSITION) {
+    this.root = this.node('', startFen, null);
+    this.current = this.root;
+  }
+
+  // Main line and comments of a PGN, or just a position from a FEN;
+  // throws when the text can't be read
+  static fromText(text: string): VariationTree {
+    const input = text.trim();
+    if (!input.includes('[') && input.split('/').length === 8) {
+      return new VariationTree(new Chess(input).fen());
+    }
+
+    // Moves are replayed as standard chess, which other variants break
+    const variant = /\[Variant\s+"([^"]*)"\]/.exec(input)?.[1];
+    if (variant && variant !== 'Standard') {
+      throw new Error(`${variant} games can't be analysed here`);
+    }
+
+    const chess = new Chess();
+    chess.loadPgn(input);
+    const history = chess.history({ verbose: true });
+    const tree = new VariationTree(history[0]?.before ?? chess.fen());
+    const comments = new Map(chess.getComments().map((c) => [c.fen, c.comment]));
+    for (const move of history) {
+      const node = tree.play(move.san);
+      node.comment = comments.get(node.fen) ?? '';
+    }
+    const headers = chess.getHeaders();
+    for (const key of Object.keys(headers)) {
+      if (!OWN_HEADERS.includes(key) && !/^[?.]*$/.test(headers[key])) {
+        tree.headers[key] = headers[key];
+      }
+    }
+    return tree;
+  }
+
+  static restore(saved: SavedTree): VariationTree | null {
+    try {
+      const tree = new VariationTree(saved.startFen);
+      tree.headers = { ...saved.headers };
+      const add = (parent: VariationNode, moves: SavedMove[]) => {
+        for (const move of moves) {
+          const node = tree.addChild(parent, move.san);
+          node.comment = move.comment ?? '';
+          node.nags = [...(move.nags ?? [])];
+          add(node, move.children);
+        }
+      };
+      add(tree.root, saved.moves);
+      for (const san of saved.path) {
+        const next = tree.current.children.find((c) => c.san === san);
+        if (!next) break;
+        tree.current = next;
+      }
+      return tree;
+    } catch {
+      return null; // a stored move no longer replays
+    }
+  }
+
+  save(): SavedTree {
+    const save = (node: VariationNode): SavedMove => ({
+      san: node.san,
+      ...(node.comment ? { comment: node.comment } : {}),
+      ...(node.nags.length ? { nags: node.nags } : {}),
+      children: node.children.map(save),
+    });
+    return {
+      startFen: this.startFen,
+      headers: this.headers,
+      moves: this.root.children.map(save),
+      path: this.pathTo(this.current).map((n) => n.san),
+    };
+  }
+
+  // Play from the current position: follows an existing move, otherwise
+  // opens a new variation (or extends the line when there is none yet).
+  // Throws on illegal moves.
+  play(move: MoveInput | string): VariationNode {
+    const chess = new Chess(this.current.fen);
+    const san =
+      typeof move === 'string' ? chess.move(move).san : playMove(chess, move).san;
+    this.current =
+      this.current.children.find((c) => c.san === san) ??
+      this.addChild(this.current, san);
+    return this.current;
+  }
+
+  goTo(node: VariationNode): void {
+    this.current = node;
+  }
+
+  back(): void {
+    if (this.current.parent) this.current = this.current.parent;
+  }
+
+  forward(): void {
+    if (this.current.children[0]) this.current = this.current.children[0];
+  }
+
+  // First and last position of the line being shown
+  toStart(): void {
+    this.current = this.root;
+  }
+  toEnd(): void {
+    while (this.current.children[0]) this.current = this.current.children[0];
+  }
+
+  // Position after `ply` moves of the main line
+  toPly(ply: number): void {
+    this.toStart();
+    for (let i = 0; i < ply; i++) this.forward();
+  }
+
+  // Nodes from the first move down to `node`
+  pathTo(node: VariationNode): VariationNode[] {
+    const path: VariationNode[] = [];
+    for (let n: VariationNode | null = node; n?.parent; n = n.parent) {
+      path.unshift(n);
+    }
+    return path;
+  }
+
+  // Move the variation holding `node` one level up: it takes its parent
+  // line's place, and that line becomes its first alternative
+  promote(node: VariationNode): void {
+    let child = node;
+    while (child.parent && child.parent.children[0] === child) {
+      child = child.parent;
+    }
+    const parent = child.parent;
+    if (!parent) return; // already the main line
+    parent.children = [child, ...parent.children.filter((c) => c !== child)];
+  }
+
+  // Drop `node` and everything after it
+  remove(node: VariationNode): void {
+    const parent = node.parent;
+    if (!parent) return;
+    if (this.pathTo(this.current).includes(node)) this.current = parent;
+    parent.children = parent.children.filter((c) => c !== node);
+  }
+
+  // Annotations from the move list
+  setComment(node: VariationNode, comment: string): void {
+    node.comment = comment.replace(/[{}]/g, '').trim(); // braces end a PGN comment
+  }
+  toggleNag(node: VariationNode, nag: number): void {
+    const others = node.nags.filter((n) => n !== nag && !isMoveNag(n));
+    node.nags = node.nags.includes(nag) ? others : [nag, ...others];
+  }
+
+  isMainLine(node: VariationNode): boolean {
+    return this.pathTo(node).every((n) => n.parent!.children[0] === n);
+  }
+
+  // "12." for White, "12…" for Black: the move number of `node`
+  moveNumber(node: VariationNode): string {
+    const { turn, number } = moveOrder(node.parent?.fen ?? node.fen);
+    return turn === 'white' ? `${number}.` : `${number}…`;
+  }
+  isWhiteMove(node: VariationNode): boolean {
+    return moveOrder(node.parent?.fen ?? node.fen).turn === 'white';
+  }
+
+  // PGN with every variation, comment and NAG; keeps an imported result
+  pgn(): string {
+    const result = this.headers['Result'] ?? '*';
+    const headers: Record<string, string> = {
+      Event: 'Analysis',
+      ...this.headers,
+      Result: result,
+    };
+    if (this.startFen !== DEFAULT_POSITION) {
+      headers['SetUp'] = '1';
+      headers['FEN'] = this.startFen;
+    }
+    const tags = Object.keys(headers).map(
+      (key) => `[${key} "${headers[key].replace(/["\\]/g, '\\$&')}"]`,
+    );
+    const tokens = [...writeLine(this.root, true), result];
+    return `${tags.join('\n')}\n\n${wrap(tokens)}\n`;
+  }
+
+  private addChild(parent: VariationNode, san: string): VariationNode {
+    const chess = new Chess(parent.fen);
+    chess.move(san);
+    const node = this.node(san, chess.fen(), parent);
+    parent.children.push(node);
+    return node;
+  }
+
+  private node(
+    san: string,
+    fen: string,
+    parent: VariationNode | null,
+  ): VariationNode {
+    return { id: this.nextId++, san, fen, comment: '', nags: [], parent, children: [] };
+  }
+}
+
+export function nagSymbol(nag: number): string {
+  return MOVE_NAGS.find((m) => m.nag === nag)?.symbol ?? `$${nag}`;
+}
+
+function isMoveNag(nag: number): boolean {
+  return MOVE_NAGS.some((m) => m.nag === nag);
+}
+
+// Side to move and the full move number, from a FEN
+function moveOrder(fen: string): { turn: Role; number: number } {
+  const fields = fen.split(' ');
+  return {
+    turn: fields[1] === 'b' ? 'black' : 'white',
+    number: Number(fields[5]) || 1,
+  };
+}
+
+// PGN tokens for the line continuing from `from`, with each move's
+// alternatives in parentheses straight after it
+function writeLine(from: VariationNode, numberBlack: boolean): string[] {
+  const tokens: string[] = [];
+  let node = from;
+  let needNumber = numberBlack;
+  while (node.children.length) {
+    const [next, ...variations] = node.children;
+    tokens.push(...writeMove(next, needNumber));
+    for (const variation of variations) {
+      const line = [...writeMove(variation, true), ...writeLine(variation, !!variation.comment)];
+      tokens.push(`(${line.join(' ')})`);
+    }
+    needNumber = !!next.comment || variations.length > 0;
+    node = next;
+  }
+  return tokens;
+}
+
+// "12." or "12..." when needed, the SAN, its NAGs and comment
+function writeMove(node: VariationNode, needNumber: boolean): string[] {
+  const { turn, number } = moveOrder(node.parent!.fen);
+  const tokens: string[] = [];
+  if (turn === 'white') tokens.push(`${number}.`);
+  else if (needNumber) tokens.push(`${number}...`);
+  tokens.push(node.san, ...node.nags.map((n) => `$${n}`));
+  if (node.comment) tokens.push(`{${node.comment}}`);
+  return tokens;
+}
+
+// Movetext lines of at most 80 characters, as the PGN standard asks
+function wrap(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens.join(' ').split(' ')) {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
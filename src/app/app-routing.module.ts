@@ -23,6 +23,55 @@ export const routes: Routes = [
         (m) => m.OnlineGameComponent,
       ),
   },
+  {
+    path: 'game/lobby',
+    loadComponent: () =>
+      import('./features/lobby/lobby.component').then(
+        (m) => m.LobbyComponent,
+      ),
+  },
+  {
+    path: 'game/computer',
+    loadComponent: () =>
+      import('./features/computer-game/computer-game.component').then(
+        (m) => m.ComputerGameComponent,
+      ),
+  },
+  {
+    path: 'game/hotseat',
+    loadComponent: () =>
+      import('./features/hotseat/hotseat.component').then(
+        (m) => m.HotseatComponent,
+      ),
+  },
+  {
+    path: 'analysis',
+    loadComponent: () =>
+      import('./features/analysis/analysis.component').then(
+        (m) => m.AnalysisComponent,
+      ),
+  },
+  {
+    path: 'puzzles',
+    loadComponent: () =>
+      import('./features/puzzles/puzzles.component').then(
+        (m) => m.PuzzlesComponent,
+      ),
+  },
+  {
+    path: 'archive',
+    loadComponent: () =>
+      import('./features/archive/archive.component').then(
+        (m) => m.ArchiveComponent,
+      ),
+  },
+  {
+    path: 'profile',
+    loadComponent: () =>
+      import('./features/profile/profile.component').then(
+        (m) => m.ProfileComponent,
+      ),
+  },
   { path: 'mainpage', redirectTo: 'game/offline', pathMatch: 'full' },
   { path: 'iframepage', redirectTo: 'embed-board', pathMatch: 'full' },
   { path: '**', redirectTo: 'game/offline' },
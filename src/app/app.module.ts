@@ -1,13 +1,26 @@
-import { NgModule } from '@angular/core';
+import { APP_INITIALIZER, NgModule } from '@angular/core';
 import { BrowserModule } from '@angular/platform-browser';
 
 import { AppRoutingModule } from './app-routing.module';
 import { AppComponent } from './app.component';
+import {
+  IndexedDbBackend,
+  STORAGE_BACKEND,
+} from './services/storage-backend';
 
 @NgModule({
   declarations: [AppComponent],
   imports: [BrowserModule, AppRoutingModule],
-  providers: [],
+  providers: [
+    // Saves live in IndexedDB; load them before any page reads one
+    { provide: STORAGE_BACKEND, useExisting: IndexedDbBackend },
+    {
+      provide: APP_INITIALIZER,
+      useFactory: (backend: IndexedDbBackend) => () => backend.hydrate(),
+      deps: [IndexedDbBackend],
+      multi: true,
+    },
+  ],
   bootstrap: [AppComponent],
 })
 export class AppModule {}
@@ -0,0 +1,56 @@
+import {
+  createClock,
+  flaggedSide,
+  formatClock,
+  pressClock,
+  remainingMs,
+  stopClock,
+} from './clock';
+
+describe('clock', () => {
+  it('formats minutes, and tenths under ten seconds', () => {
+    expect(formatClock(300_000)).toBe('5:00');
+    expect(formatClock(61_001)).toBe('1:02');
+    expect(formatClock(10_000)).toBe('0:10');
+    expect(formatClock(9_999)).toBe('0:09.9');
+    expect(formatClock(9_950)).toBe('0:09.9');
+    expect(formatClock(1_234)).toBe('0:01.2');
+    expect(formatClock(0)).toBe('0:00.0');
+  });
+
+  it('starts both sides full with nothing running', () => {
+    const clock = createClock({ initial: 180, increment: 2 });
+    expect(clock).toEqual({
+      white: 180_000,
+      black: 180_000,
+      running: null,
+      since: 0,
+    });
+    expect(flaggedSide(clock, 10_000_000)).toBeNull();
+  });
+
+  it('charges the mover, adds the increment and starts the opponent', () => {
+    let clock = createClock({ initial: 60, increment: 2 });
+    clock = pressClock(clock, 'white', 1_000, 2); // first move costs nothing
+    expect(clock).toEqual({
+      white: 62_000,
+      black: 60_000,
+      running: 'black',
+      since: 1_000,
+    });
+
+    clock = pressClock(clock, 'black', 11_000, 2);
+    expect(clock.black).toBe(52_000);
+    expect(clock.running).toBe('white');
+    expect(remainingMs(clock, 'white', 21_000)).toBe(52_000);
+  });
+
+  it('flags the running side once its time is gone', () => {
+    const start = createClock({ initial: 60, increment: 0 });
+    const clock = pressClock(start, 'white', 0, 0);
+    expect(flaggedSide(clock, 59_999)).toBeNull();
+    expect(flaggedSide(clock, 60_000)).toBe('black');
+    expect(remainingMs(clock, 'black', 90_000)).toBe(0);
+    expect(flaggedSide(stopClock(clock, 30_000), 90_000)).toBeNull();
+  });
+});
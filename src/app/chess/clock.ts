@@ -0,0 +1,79 @@
+import { ClockState, TimeControl } from '../types/clock';
+import { Role } from '../types/messages';
+import { opponentOf } from './game-result';
+
+export const TIME_CONTROL_PRESETS: TimeControl[] = [
+  { initial: 180, increment: 2 },
+  { initial: 300, increment: 0 },
+  { initial: 600, increment: 0 },
+  { initial: 900, increment: 10 },
+];
+
+// Short label in minutes+seconds, e.g. "3+2"
+export function timeControlLabel(tc: TimeControl | null): string {
+  return tc ? `${tc.initial / 60}+${tc.increment}` : 'No clock';
+}
+
+// Both sides start full; nothing runs until White's first move
+export function createClock(tc: TimeControl): ClockState {
+  const ms = tc.initial * 1000;
+  return { white: ms, black: ms, running: null, since: 0 };
+}
+
+// Time left for one side at `now`, never below zero
+export function remainingMs(clock: ClockState, side: Role, now: number): number {
+  if (clock.running !== side) return clock[side];
+  return Math.max(0, clock[side] - (now - clock.since));
+}
+
+// Mover pressed the clock: charge the elapsed time, add increment, start opponent
+export function pressClock(
+  clock: ClockState,
+  mover: Role,
+  now: number,
+  increment: number,
+): ClockState {
+  const left = remainingMs(clock, mover, now) + increment * 1000;
+  return {
+    ...clock,
+    white: mover === 'white' ? left : clock.white,
+    black: mover === 'black' ? left : clock.black,
+    running: opponentOf(mover),
+    since: now,
+  };
+}
+
+// Freeze both clocks, e.g. when the game ends
+export function stopClock(clock: ClockState, now: number): ClockState {
+  if (!clock.running) return clock;
+  return {
+    white: remainingMs(clock, 'white', now),
+    black: remainingMs(clock, 'black', now),
+    running: null,
+    since: now,
+  };
+}
+
+// Restart the clock for whoever is to move now, e.g. after a takeback
+export function handClockTo(
+  clock: ClockState,
+  side: Role,
+  now: number,
+): ClockState {
+  if (!clock.running) return clock;
+  return { ...stopClock(clock, now), running: side };
+}
+
+// The side whose flag has fallen, if any
+export function flaggedSide(clock: ClockState, now: number): Role | null {
+  const side = clock.running;
+  return side && remainingMs(clock, side, now) <= 0 ? side : null;
+}
+
+// m:ss, with tenths once under ten seconds. Tenths are floored so 9.95s
+// reads 0:09.9, never 0:010.0.
+export function formatClock(ms: number): string {
+  if (ms < 10_000) return `0:0${(Math.floor(ms / 100) / 10).toFixed(1)}`;
+  const secs = Math.ceil(ms / 1000);
+  return `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,324 @@
+import { Chess } from 'chess.js';
+import { ClockState, TimeControl } from '../types/clock';
+import { GameResult, Role, Turn, WireMessage } from '../types/messages';
+import { Opening } from '../types/opening';
+import { Variant } from '../types/variant';
+import {
+  createClock,
+  flaggedSide,
+  handClockTo,
+  pressClock,
+  stopClock,
+} from './clock';
+import {
+  ABORT_PLY_LIMIT,
+  detectResult,
+  opponentOf,
+  resultScore,
+  resultText,
+  timeoutResult,
+} from './game-result';
+import { playMove, takebackPlies } from './moves';
+import { exportPgn, startFenOf } from './pgn';
+import {
+  defaultMeta,
+  restoreGame,
+  SAVED_GAME_VERSION,
+  SavedGame,
+  SavedGameMeta,
+} from './saved-game';
+
+// How the coordinator reaches the boards and its owner
+export interface CoordinatorOutput {
+  send(to: Role, msg: WireMessage): void;
+  changed(): void; // state worth saving changed
+  ended(result: GameResult): void; // the game just finished
+}
+
+// Authoritative state of a two-board game: receives the boards' WireMessages,
+// checks them with chess.js and answers both sides. Transport-agnostic, so
+// iframes and browser tabs can share the same rules.
+export class GameCoordinator {
+  chess = new Chess();
+  result: GameResult | null = null; // set once the game has ended
+  drawOfferBy: Role | null = null; // side with a pending draw offer
+  takebackBy: Role | null = null; // side asking to take back a move
+  timeControl: TimeControl | null = null; // null = untimed
+  clock: ClockState | null = null;
+  meta: SavedGameMeta = defaultMeta(); // PGN headers for this game
+  variant: Variant = 'standard';
+
+  constructor(private out: CoordinatorOutput) {}
+
+  // Take over a saved game; false if its moves no longer replay
+  restore(saved: SavedGame): boolean {
+    const chess = restoreGame(saved);
+    if (!chess) return false;
+    this.chess = chess;
+    this.variant = saved.variant;
+    this.result = saved.result;
+    this.timeControl = saved.timeControl;
+    this.clock = saved.clock;
+    this.drawOfferBy = saved.drawOfferBy;
+    this.takebackBy = saved.takebackBy;
+    this.meta = saved.meta;
+    return true;
+  }
+
+  // Everything needed to rebuild this game elsewhere
+  snapshot(): SavedGame {
+    return {
+      version: SAVED_GAME_VERSION,
+      variant: this.variant,
+      startFen: startFenOf(this.chess),
+      moves: this.chess.history(),
+      result: this.result,
+      timeControl: this.timeControl,
+      clock: this.clock,
+      drawOfferBy: this.drawOfferBy,
+      takebackBy: this.takebackBy,
+      meta: this.meta,
+    };
+  }
+
+  // Begin a fresh game from `start`, set up for `variant`, and reset both boards
+  start(
+    start: Chess,
+    timeControl: TimeControl | null,
+    variant: Variant = 'standard',
+  ): void {
+    this.chess = start;
+    this.variant = variant;
+    this.result = null;
+    this.drawOfferBy = null;
+    this.takebackBy = null;
+    this.meta = defaultMeta();
+    this.timeControl = timeControl;
+    this.clock = timeControl ? createClock(timeControl) : null;
+    this.out.changed();
+
+    this.sendToBoth({ type: 'RESET' });
+    this.syncAll();
+  }
+
+  // Bring one board up to date: position, turn, offers and any result
+  syncTo(role: Role): void {
+    this.send(role, this.syncState());
+    this.send(role, this.turnMessage());
+    this.send(role, { type: 'DRAW_STATE', offeredBy: this.drawOfferBy });
+    this.send(role, { type: 'TAKEBACK_STATE', requestedBy: this.takebackBy });
+    if (this.result) this.send(role, { type: 'GAME_OVER', ...this.result });
+  }
+
+  syncAll(): void {
+    this.syncTo('white');
+    this.syncTo('black');
+  }
+
+  // One message from the board playing `from`
+  handle(from: Role, msg: WireMessage): void {
+    switch (msg.type) {
+      case 'IFRAME_READY':
+      case 'REQUEST_SYNC':
+        this.syncTo(from);
+        break;
+
+      case 'MOVE': {
+        // Only accept moves from the side to move in a running game
+        this.checkFlag();
+        if (this.result) {
+          this.rejectMove(from, 'Game is over');
+          return;
+        }
+        if (from !== this.roleToMove()) {
+          this.rejectMove(from, 'Not your turn');
+          return;
+        }
+
+        // Replay through chess.js so only legal moves change the game
+        try {
+          playMove(this.chess, msg.move);
+        } catch {
+          this.rejectMove(from, 'Illegal move');
+          return;
+        }
+
+        // Any move lapses pending draw offers and takeback requests
+        this.drawOfferBy = null;
+        this.takebackBy = null;
+
+        // Mover hits the clock
+        if (this.clock && this.timeControl) {
+          this.clock = pressClock(
+            this.clock,
+            from,
+            Date.now(),
+            this.timeControl.increment,
+          );
+        }
+        this.out.changed();
+
+        // Mirror the move onto the other board
+        this.send(opponentOf(from), this.syncState());
+
+        // Checkmate or draw ends the game
+        const result = detectResult(this.chess, this.variant);
+        if (result) {
+          this.endGame(result);
+          return;
+        }
+        this.broadcastTurn();
+        break;
+      }
+
+      case 'RESIGN':
+        if (this.result) return;
+        this.endGame({ winner: opponentOf(from), reason: 'resignation' });
+        break;
+
+      case 'ABORT':
+        // Only before both sides have moved
+        if (this.result || this.chess.history().length >= ABORT_PLY_LIMIT) {
+          return;
+        }
+        this.endGame({ winner: null, reason: 'aborted' });
+        break;
+
+      case 'DRAW_OFFER':
+        if (this.result) return;
+        this.drawOfferBy = from;
+        this.out.changed();
+        this.broadcastOffers();
+        break;
+
+      case 'DRAW_REPLY': {
+        // Only the side that received the offer may answer it
+        const offeredBy = this.drawOfferBy;
+        if (this.result || !offeredBy || offeredBy === from) return;
+        this.drawOfferBy = null;
+        if (msg.accept) {
+          this.endGame({ winner: null, reason: 'agreement' });
+        } else {
+          this.out.changed();
+          this.broadcastOffers();
+        }
+        break;
+      }
+
+      case 'TAKEBACK_REQUEST':
+        // Needs at least one own move to take back
+        if (this.result || !takebackPlies(this.chess, from)) return;
+        this.takebackBy = from;
+        this.out.changed();
+        this.broadcastOffers();
+        break;
+
+      case 'TAKEBACK_REPLY': {
+        // Only the requester's opponent may answer
+        const requester = this.takebackBy;
+        if (this.result || !requester || requester === from) return;
+        this.takebackBy = null;
+        if (msg.accept) {
+          this.takeBack(requester);
+        } else {
+          this.out.changed();
+          this.broadcastOffers();
+        }
+        break;
+      }
+    }
+  }
+
+  // Lose on time once the running side's flag falls
+  checkFlag(): void {
+    if (this.result || !this.clock) return;
+    const flagged = flaggedSide(this.clock, Date.now());
+    if (flagged) this.endGame(timeoutResult(this.chess, flagged, this.variant));
+  }
+
+  roleToMove(): Role {
+    return this.chess.turn() === 'w' ? 'white' : 'black';
+  }
+
+  // Status line: the result, or whose turn it is
+  get turnText(): string {
+    if (this.result) return resultText(this.result);
+    return this.chess.turn() === 'w' ? 'White to move' : 'Black to move';
+  }
+
+  // `opening` names the game in the ECO/Opening headers
+  pgn(opening: Opening | null = null): string {
+    return exportPgn(this.chess, {
+      event: this.meta.event,
+      white: this.meta.white,
+      black: this.meta.black,
+      result: this.result ? resultScore(this.result) : '*',
+      timeControl: this.timeControl,
+      date: new Date(this.meta.startedAt),
+      opening,
+      variant: this.variant,
+    });
+  }
+
+  private send(to: Role, msg: WireMessage): void {
+    this.out.send(to, msg);
+  }
+
+  private sendToBoth(msg: WireMessage): void {
+    this.send('white', msg);
+    this.send('black', msg);
+  }
+
+  private syncState(): WireMessage {
+    const { chess, variant } = this;
+    return variant === 'standard'
+      ? { type: 'SYNC_STATE', fen: chess.fen(), pgn: chess.pgn() }
+      : { type: 'SYNC_STATE', fen: chess.fen(), pgn: chess.pgn(), variant };
+  }
+
+  private turnMessage(): WireMessage {
+    const turn: Turn = this.chess.turn();
+    return { type: 'TURN', turn, ply: this.chess.history().length };
+  }
+
+  // Refuse a move and roll the sender's board back to the real position
+  private rejectMove(to: Role, reason: string): void {
+    this.send(to, { type: 'MOVE_REJECTED', fen: this.chess.fen(), reason });
+  }
+
+  // Record the result and freeze both boards
+  private endGame(result: GameResult): void {
+    this.result = result;
+    this.drawOfferBy = null;
+    this.takebackBy = null;
+    if (this.clock) this.clock = stopClock(this.clock, Date.now());
+    this.chess.setHeader('Result', resultScore(result));
+    this.out.changed();
+    this.out.ended(result);
+    this.sendToBoth({ type: 'GAME_OVER', ...result });
+  }
+
+  // Undo the requester's last move (and the reply to it), then resync both boards
+  private takeBack(requester: Role): void {
+    const plies = takebackPlies(this.chess, requester);
+    for (let i = 0; i < plies; i++) this.chess.undo();
+    this.drawOfferBy = null;
+    if (this.clock) {
+      this.clock = handClockTo(this.clock, this.roleToMove(), Date.now());
+    }
+    this.out.changed();
+    this.sendToBoth(this.syncState());
+    this.broadcastTurn();
+  }
+
+  // Tell both boards whose turn it is, with the pending offers
+  private broadcastTurn(): void {
+    this.sendToBoth(this.turnMessage());
+    this.broadcastOffers();
+  }
+
+  private broadcastOffers(): void {
+    this.sendToBoth({ type: 'DRAW_STATE', offeredBy: this.drawOfferBy });
+    this.sendToBoth({ type: 'TAKEBACK_STATE', requestedBy: this.takebackBy });
+  }
+}
@@ -0,0 +1,77 @@
+import { Chess } from 'chess.js';
+import {
+  detectResult,
+  resultScore,
+  resultText,
+  timeoutResult,
+} from './game-result';
+import { replayMoves } from './moves';
+
+describe('game result', () => {
+  it('is null while play goes on', () => {
+    expect(detectResult(replayMoves(['e4', 'e5']))).toBeNull();
+  });
+
+  it('gives checkmate to the side that delivered it', () => {
+    const chess = replayMoves(['f3', 'e5', 'g4', 'Qh4#']);
+    expect(detectResult(chess)).toEqual({ winner: 'black', reason: 'checkmate' });
+  });
+
+  it('draws by stalemate and insufficient material', () => {
+    expect(detectResult(new Chess('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1'))).toEqual({
+      winner: null,
+      reason: 'stalemate',
+    });
+    expect(detectResult(new Chess('8/8/4k3/8/8/3NK3/8/8 w - - 0 1'))).toEqual({
+      winner: null,
+      reason: 'insufficient-material',
+    });
+  });
+
+  it('draws by threefold repetition', () => {
+    const shuffle = ['Nf3', 'Nf6', 'Ng1', 'Ng8'];
+    const chess = replayMoves([...shuffle, ...shuffle]);
+    expect(detectResult(chess)).toEqual({
+      winner: null,
+      reason: 'threefold-repetition',
+    });
+  });
+
+  it('draws by the fifty-move rule', () => {
+    const chess = new Chess('8/8/4k3/8/8/3RK3/8/8 w - - 99 80');
+    chess.move('Rd1');
+    expect(detectResult(chess)).toEqual({
+      winner: null,
+      reason: 'fifty-move-rule',
+    });
+  });
+
+  it('only lets the flag win when the opponent could still mate', () => {
+    const rook = new Chess('8/8/4k3/8/8/3RK3/8/8 w - - 0 1');
+    expect(timeoutResult(rook, 'black')).toEqual({
+      winner: 'white',
+      reason: 'timeout',
+    });
+    expect(timeoutResult(rook, 'white')).toEqual({
+      winner: null,
+      reason: 'timeout-vs-insufficient-material',
+    });
+
+    const minors = new Chess('8/8/4k3/8/8/2NBK3/8/8 w - - 0 1');
+    expect(timeoutResult(minors, 'black').reason).toBe('timeout');
+    const knight = new Chess('8/8/4k3/8/8/3NK3/8/8 w - - 0 1');
+    expect(timeoutResult(knight, 'black').reason).toBe(
+      'timeout-vs-insufficient-material',
+    );
+  });
+
+  it('describes and scores results', () => {
+    const mate = { winner: 'white' as const, reason: 'checkmate' as const };
+    expect(resultText(mate)).toBe('WHITE wins by checkmate');
+    expect(resultScore(mate)).toBe('1-0');
+    expect(resultText({ winner: null, reason: 'stalemate' })).toBe(
+      'Draw by stalemate',
+    );
+    expect(resultScore({ winner: null, reason: 'aborted' })).toBe('*');
+  });
+});
@@ -0,0 +1,94 @@
+import { Chess, Color } from 'chess.js';
+import { GameOverReason, GameResult, Role, Score } from '../types/messages';
+import { Variant } from '../types/variant';
+import { variantEnding } from '../variants/variants';
+
+const REASON_TEXT: Record<GameOverReason, string> = {
+  checkmate: 'checkmate',
+  stalemate: 'stalemate',
+  'threefold-repetition': 'threefold repetition',
+  'fifty-move-rule': 'the fifty-move rule',
+  'insufficient-material': 'insufficient material',
+  timeout: 'timeout',
+  'timeout-vs-insufficient-material': 'timeout vs insufficient material',
+  resignation: 'resignation',
+  agreement: 'agreement',
+  aborted: 'abort',
+  abandonment: 'abandonment',
+  'king-of-the-hill': 'king of the hill',
+  'three-check': 'three checks',
+  'horde-captured': 'capturing the horde',
+};
+
+// Aborting is allowed until both sides have made their first move
+export const ABORT_PLY_LIMIT = 2;
+
+// Check the position for any rule that ends the game; null while play goes on
+export function detectResult(
+  chess: Chess,
+  variant: Variant = 'standard',
+): GameResult | null {
+  const ending = variantEnding(chess, variant);
+  if (ending) return ending;
+  if (chess.isCheckmate()) {
+    const winner: Role = chess.turn() === 'w' ? 'black' : 'white';
+    return { winner, reason: 'checkmate' };
+  }
+  if (chess.isStalemate()) return { winner: null, reason: 'stalemate' };
+  // The horde has no king, which chess.js counts as bare material
+  if (variant !== 'horde' && chess.isInsufficientMaterial()) {
+    return { winner: null, reason: 'insufficient-material' };
+  }
+  if (chess.isThreefoldRepetition()) {
+    return { winner: null, reason: 'threefold-repetition' };
+  }
+  if (chess.isDrawByFiftyMoves()) {
+    return { winner: null, reason: 'fifty-move-rule' };
+  }
+  return null;
+}
+
+// Flag fell: the opponent wins unless they could never mate. A lone king
+// can still win King of the Hill by walking to the centre.
+export function timeoutResult(
+  chess: Chess,
+  flagged: Role,
+  variant: Variant = 'standard',
+): GameResult {
+  const winner = opponentOf(flagged);
+  return variant === 'kingOfTheHill' ||
+    hasMatingMaterial(chess, winner === 'white' ? 'w' : 'b')
+    ? { winner, reason: 'timeout' }
+    : { winner: null, reason: 'timeout-vs-insufficient-material' };
+}
+
+// A lone king, or king and a single minor piece, can never mate
+function hasMatingMaterial(chess: Chess, color: Color): boolean {
+  const pieces = chess
+    .board()
+    .flat()
+    .filter((p) => p && p.color === color && p.type !== 'k');
+  if (pieces.some((p) => p && ['p', 'r', 'q'].includes(p.type))) return true;
+  return pieces.length >= 2;
+}
+
+// Overlay text, e.g. "WHITE wins by checkmate" or "Draw by stalemate"
+export function resultText(result: GameResult): string {
+  if (result.reason === 'aborted') return 'Game aborted';
+  const why = REASON_TEXT[result.reason];
+  return result.winner
+    ? `${result.winner.toUpperCase()} wins by ${why}`
+    : `Draw by ${why}`;
+}
+
+// The other side of the board
+export function opponentOf(role: Role): Role {
+  return role === 'white' ? 'black' : 'white';
+}
+
+// PGN result token for a finished game
+export function resultScore(result: GameResult): Score {
+  if (result.reason === 'aborted') return '*';
+  if (!result.winner) return '1/2-1/2';
+  return result.winner === 'white' ? '1-0' : '0-1';
+}
@@ -0,0 +1,49 @@
+import { Chess } from 'chess.js';
+import { playMove, replayMoves, takebackPlies } from './moves';
+
+const PROMOTION = '8/4P3/8/8/8/8/k7/4K3 w - - 0 1';
+
+describe('moves', () => {
+  it('plays a legal move given as squares', () => {
+    const chess = new Chess();
+    const move = playMove(chess, { from: 'e2', to: 'e4' });
+
+    expect(move.san).toBe('e4');
+    expect(chess.turn()).toBe('b');
+  });
+
+  it('throws on an illegal move and leaves the game as it was', () => {
+    const chess = new Chess();
+    expect(() => playMove(chess, { from: 'e2', to: 'e5' })).toThrow();
+    expect(chess.history()).toEqual([]);
+  });
+
+  it('needs a promotion piece exactly when a pawn promotes', () => {
+    expect(() => playMove(new Chess(PROMOTION), { from: 'e7', to: 'e8' })).toThrow();
+    expect(() =>
+      playMove(new Chess(), { from: 'e2', to: 'e4', promotion: 'q' }),
+    ).toThrow();
+
+    const chess = new Chess(PROMOTION);
+    playMove(chess, { from: 'e7', to: 'e8', promotion: 'n' });
+    expect(chess.get('e8')).toEqual({ type: 'n', color: 'w' });
+  });
+
+  it('replays SAN moves from the start or a given position', () => {
+    expect(replayMoves(['e4', 'e5', 'Nf3']).fen()).toBe(
+      'rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2',
+    );
+    const chess = replayMoves(['e8=Q'], PROMOTION);
+    expect(chess.history()).toEqual(['e8=Q']);
+    expect(() => replayMoves(['e4', 'e4'])).toThrow();
+  });
+
+  it('takes back my last move and any reply to it', () => {
+    const chess = replayMoves(['e4', 'e5', 'Nf3']);
+
+    expect(takebackPlies(chess, 'white')).toBe(1);
+    expect(takebackPlies(chess, 'black')).toBe(2);
+    expect(takebackPlies(new Chess(), 'white')).toBe(0);
+    expect(takebackPlies(replayMoves(['e4']), 'black')).toBe(0);
+  });
+});
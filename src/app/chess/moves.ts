@@ -0,0 +1,103 @@
+import { Chess, Move, Square } from 'chess.js';
+import { NgxChessBoardComponent, NgxChessBoardView } from 'ngx-chess-board';
+import { MoveInput, Promotion, Role } from '../types/messages';
+import { Variant } from '../types/variant';
+import { variantChess } from '../variants/variants';
+
+// ngx-chess-board appends its promotion dialog index (1-4) to the coords
+const PROMOTION_BY_INDEX: Record<string, Promotion> = {
+  '1': 'q',
+  '2': 'r',
+  '3': 'b',
+  '4': 'n',
+};
+
+const INDEX_BY_PROMOTION: Record<Promotion, number> = { q: 1, r: 2, b: 3, n: 4 };
+
+// The board asks for a promotion piece through its own dialog; hand that
+// question to `ask` instead, which answers once the player has picked
+export function routePromotionDialog(
+  board: NgxChessBoardView,
+  ask: (answer: (piece: Promotion) => void) => void,
+): void {
+  const modal = (board as NgxChessBoardComponent).modal;
+  if (!modal) return;
+  modal.open = (closeCallback) =>
+    ask((piece) => closeCallback(INDEX_BY_PROMOTION[piece]));
+}
+
+// Turn the board so Black sits at the bottom exactly when `blackBelow`;
+// returns the new orientation for the caller to keep
+export function orientBoard(
+  board: NgxChessBoardView,
+  reversed: boolean,
+  blackBelow: boolean,
+): boolean {
+  if (blackBelow !== reversed) board.reverse();
+  return blackBelow;
+}
+
+// Show a position facing the right way: setFEN may reset the orientation,
+// so it is applied again. Returns whether the board is now reversed.
+export function showPosition(
+  board: NgxChessBoardView,
+  fen: string,
+  blackBelow: boolean,
+): boolean {
+  board.setFEN(fen);
+  return orientBoard(board, false, blackBelow);
+}
+
+// True when moving from -> to is a pawn reaching the last rank
+export function isPromotionMove(chess: Chess, from: string, to: string): boolean {
+  return chess
+    .moves({ square: from as Square, verbose: true })
+    .some((m) => m.to === to && !!m.promotion);
+}
+
+// Play a move given as squares. chess.js quietly drops a promotion piece on
+// an ordinary move, so check it is given exactly when a pawn promotes.
+// Throws on anything illegal.
+export function playMove(chess: Chess, move: MoveInput): Move {
+  if (isPromotionMove(chess, move.from, move.to) !== !!move.promotion) {
+    throw new Error('Promotion piece missing or not allowed');
+  }
+  return chess.move(move);
+}
+
+// Read the move the user just dropped on the board as from/to/promotion
+export function lastBoardMove(board: NgxChessBoardView): MoveInput | null {
+  const history = board.getMoveHistory();
+  const last = history[history.length - 1];
+  const match = last?.move.match(/^([a-h][1-8])([a-h][1-8])([1-4])?$/);
+  if (!match) return null;
+  const [, from, to, index] = match;
+  return index ? { from, to, promotion: PROMOTION_BY_INDEX[index] } : { from, to };
+}
+
+// Rebuild a game by replaying SAN moves; throws if any move is illegal
+export function replayMoves(
+  moves: string[],
+  startFen?: string,
+  variant: Variant = 'standard',
+): Chess {
+  const chess = variantChess(variant, startFen);
+  for (const san of moves) chess.move(san);
+  return chess;
+}
+
+// Position after the first `ply` half-moves, read from the game's own history
+export function fenAtPly(chess: Chess, ply: number): string {
+  const history = chess.history({ verbose: true });
+  if (!history.length) return chess.fen();
+  if (ply <= 0) return history[0].before;
+  return history[Math.min(ply, history.length) - 1].after;
+}
+
+// Plies to undo for a takeback: my last move, plus the reply if one was made
+export function takebackPlies(chess: Chess, requester: Role): number {
+  const history = chess.history({ verbose: true });
+  const mine = requester === 'white' ? 'w' : 'b';
+  const lastMine = history.map((m) => m.color).lastIndexOf(mine);
+  return lastMine < 0 ? 0 : history.length - lastMine;
+}
@@ -0,0 +1,74 @@
+import { Chess } from 'chess.js';
+import { replayMoves } from './moves';
+import { exportPgn, importGame, pgnFileName, startFenOf } from './pgn';
+
+const CUSTOM = '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1';
+
+function meta() {
+  return {
+    event: 'Local game',
+    white: 'Ann',
+    black: 'Bob',
+    result: '*' as const,
+    timeControl: { initial: 300, increment: 2 },
+    date: new Date(2024, 4, 1),
+  };
+}
+
+describe('pgn', () => {
+  it('exports the standard headers and the moves', () => {
+    const pgn = exportPgn(replayMoves(['e4', 'e5']), meta());
+
+    expect(pgn).toContain('[Event "Local game"]');
+    expect(pgn).toContain('[Date "2024.05.01"]');
+    expect(pgn).toContain('[White "Ann"]');
+    expect(pgn).toContain('[TimeControl "300+2"]');
+    expect(pgn).toContain('1. e4 e5 *');
+  });
+
+  it('names the opening when known and records custom starts', () => {
+    const chess = replayMoves(['e4'], CUSTOM);
+    const opening = { eco: 'B00', name: "King's Pawn" };
+    const pgn = exportPgn(chess, { ...meta(), opening, timeControl: null });
+
+    expect(pgn).toContain('[ECO "B00"]');
+    expect(pgn).toContain('[TimeControl "-"]');
+    expect(pgn).toContain(`[FEN "${CUSTOM}"]`);
+    expect(startFenOf(chess)).toBe(CUSTOM);
+  });
+
+  it('imports a FEN or a PGN to play on from', () => {
+    const fromFen = importGame(`  ${CUSTOM}  `);
+    expect('chess' in fromFen && fromFen.chess.fen()).toBe(CUSTOM);
+
+    const fromPgn = importGame('1. e4 e5 2. Nf3 *');
+    expect('chess' in fromPgn && fromPgn.chess.history()).toEqual([
+      'e4',
+      'e5',
+      'Nf3',
+    ]);
+
+    const exported = exportPgn(replayMoves(['d4', 'd5']), meta());
+    const again = importGame(exported);
+    expect('chess' in again && again.chess.history()).toEqual(['d4', 'd5']);
+  });
+
+  it('explains what is wrong with unplayable input', () => {
+    expect(importGame('   ')).toEqual({ error: 'Paste a FEN or PGN first.' });
+    expect(importGame('8/8/8/8/8/8/8/8 w - - 0 1')).toEqual({
+      error: 'Invalid FEN: missing white king',
+    });
+    expect('error' in importGame('1. e4 e4')).toBeTrue();
+    expect(importGame('1. f3 e5 2. g4 Qh4#')).toEqual({
+      error: 'That game is already over; there is nothing to play.',
+    });
+  });
+
+  it('dates download names', () => {
+    expect(pgnFileName(new Date(2024, 4, 1))).toBe('pencil-chess-2024-05-01.pgn');
+  });
+
+  it('reads the start of a game with no moves', () => {
+    expect(startFenOf(new Chess(CUSTOM))).toBe(CUSTOM);
+  });
+});
@@ -0,0 +1,98 @@
+import { Chess, validateFen } from 'chess.js';
+import { TimeControl } from '../types/clock';
+import { Score } from '../types/messages';
+import { Opening } from '../types/opening';
+import { Variant } from '../types/variant';
+import { variantName } from '../variants/variants';
+import { detectResult } from './game-result';
+
+export type PgnMeta = {
+  event: string;
+  white: string;
+  black: string;
+  result: Score;
+  timeControl: TimeControl | null;
+  date?: Date;
+  opening?: Opening | null; // ECO/Opening headers when the opening is known
+  variant?: Variant; // Variant header for anything but standard chess
+};
+
+export type ImportResult = { chess: Chess } | { error: string };
+
+// PGN with the standard headers; SetUp/FEN come from chess.js for custom
+// starts, and always for Chess960, whose readers need the back rank
+export function exportPgn(chess: Chess, meta: PgnMeta): string {
+  const tc = meta.timeControl;
+  chess.setHeader('Event', meta.event);
+  chess.setHeader('Date', pgnDate(meta.date ?? new Date()));
+  chess.setHeader('White', meta.white);
+  chess.setHeader('Black', meta.black);
+  chess.setHeader('Result', meta.result);
+  chess.setHeader('TimeControl', tc ? `${tc.initial}+${tc.increment}` : '-');
+  if (meta.opening) {
+    chess.setHeader('ECO', meta.opening.eco);
+    chess.setHeader('Opening', meta.opening.name);
+  } else {
+    chess.removeHeader('ECO'); // e.g. after a takeback to the start
+    chess.removeHeader('Opening');
+  }
+  if (meta.variant && meta.variant !== 'standard') {
+    chess.setHeader('Variant', variantName(meta.variant));
+  } else {
+    chess.removeHeader('Variant');
+  }
+  if (meta.variant === 'chess960') {
+    chess.setHeader('SetUp', '1');
+    chess.setHeader('FEN', startFenOf(chess));
+  }
+  return chess.pgn();
+}
+
+// Position the game started from (before any of its moves)
+export function startFenOf(chess: Chess): string {
+  return chess.history({ verbose: true })[0]?.before ?? chess.fen();
+}
+
+// Read pasted text as a FEN or a PGN and check it can still be played on
+export function importGame(text: string): ImportResult {
+  const input = text.trim();
+  if (!input) return { error: 'Paste a FEN or PGN first.' };
+
+  let chess: Chess;
+  if (looksLikeFen(input)) {
+    const check = validateFen(input);
+    // chess.js errors already read "Invalid FEN: …"
+    if (!check.ok) return { error: check.error ?? 'Invalid FEN' };
+    chess = new Chess(input);
+  } else {
+    chess = new Chess();
+    try {
+      chess.loadPgn(input);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'unreadable';
+      return { error: `Invalid PGN: ${reason}` };
+    }
+  }
+
+  if (detectResult(chess)) {
+    return { error: 'That game is already over; there is nothing to play.' };
+  }
+  return { chess };
+}
+
+// FEN: one line, eight ranks separated by slashes, no PGN tags
+function looksLikeFen(input: string): boolean {
+  return !input.includes('[') && /^([^\s/]+\/){7}[^\s/]+\s/.test(input);
+}
+
+// File name for downloads, e.g. "pencil-chess-2024-05-01.pgn"
+export function pgnFileName(date = new Date()): string {
+  return `pencil-chess-${pgnDate(date).replace(/\./g, '-')}.pgn`;
+}
+
+// PGN dates are YYYY.MM.DD
+function pgnDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = pad(date.getDate());
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${day}`;
+}
@@ -0,0 +1,79 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import {
+  defaultMeta,
+  migrateSavedGame,
+  restoreGame,
+  SAVED_GAME_VERSION,
+  SavedGame,
+} from './saved-game';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+function saved(overrides: Partial<SavedGame> = {}): SavedGame {
+  return {
+    version: SAVED_GAME_VERSION,
+    variant: 'standard',
+    startFen: DEFAULT_POSITION,
+    moves: ['e4', 'e5', 'Nf3'],
+    result: null,
+    timeControl: { initial: 300, increment: 0 },
+    clock: null,
+    drawOfferBy: null,
+    takebackBy: 'white',
+    meta: defaultMeta(1_700_000_000_000),
+    ...overrides,
+  };
+}
+
+describe('saved-game', () => {
+  it('keeps the current version as it is', () => {
+    const game = saved({ variant: 'chess960' });
+    expect(migrateSavedGame(game)).toEqual(game);
+  });
+
+  it('upgrades v2 as a standard game', () => {
+    const { variant, ...v2 } = saved();
+    const migrated = migrateSavedGame({ ...v2, version: 2 });
+
+    expect(variant).toBe('standard');
+    expect(migrated).toEqual(saved());
+  });
+
+  it('upgrades v1 from its position with no history', () => {
+    const migrated = migrateSavedGame({
+      fen: AFTER_E4,
+      result: { winner: 'white', reason: 'resignation' },
+    });
+
+    expect(migrated).toEqual(
+      jasmine.objectContaining({
+        version: SAVED_GAME_VERSION,
+        variant: 'standard',
+        startFen: AFTER_E4,
+        moves: [],
+        result: { winner: 'white', reason: 'resignation' },
+        timeControl: null,
+        clock: null,
+        drawOfferBy: null,
+        takebackBy: null,
+      }),
+    );
+    expect(migrated?.meta.event).toBe('Local game');
+  });
+
+  it('rejects anything it cannot read', () => {
+    expect(migrateSavedGame(null)).toBeNull();
+    expect(migrateSavedGame('fen')).toBeNull();
+    expect(migrateSavedGame({})).toBeNull();
+    expect(migrateSavedGame({ ...saved(), version: SAVED_GAME_VERSION + 1 })).toBeNull();
+  });
+
+  it('restores the full history', () => {
+    const chess = restoreGame(saved());
+    expect(chess?.history()).toEqual(['e4', 'e5', 'Nf3']);
+  });
+
+  it('gives up on moves that no longer replay', () => {
+    expect(restoreGame(saved({ moves: ['e4', 'e4'] }))).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { Chess } from 'chess.js';
+import { ClockState, TimeControl } from '../types/clock';
+import { GameResult, Role } from '../types/messages';
+import { Variant } from '../types/variant';
+import { replayMoves } from './moves';
+
+export const SAVED_GAME_VERSION = 3;
+
+// Everything the offline host needs to rebuild a game after a refresh
+export type SavedGame = {
+  version: typeof SAVED_GAME_VERSION;
+  variant: Variant;
+  startFen: string; // position the moves are replayed from
+  moves: string[]; // SAN moves in play order
+  result: GameResult | null;
+  timeControl: TimeControl | null;
+  clock: ClockState | null;
+  drawOfferBy: Role | null;
+  takebackBy: Role | null;
+  meta: SavedGameMeta;
+};
+
+export type SavedGameMeta = {
+  event: string;
+  white: string;
+  black: string;
+  startedAt: number; // epoch ms, becomes the PGN Date
+};
+
+// v2: every game was standard chess
+type SavedGameV2 = Omit<SavedGame, 'version' | 'variant'> & { version: 2 };
+
+// v1: the position only, written before move history was kept
+type SavedGameV1 = {
+  fen: string;
+  result?: GameResult;
+  timeControl?: TimeControl | null;
+  clock?: ClockState | null;
+};
+
+export function defaultMeta(startedAt = Date.now()): SavedGameMeta {
+  return { event: 'Local game', white: 'White', black: 'Black', startedAt };
+}
+
+// Bring any stored shape up to the current version; null if unusable
+export function migrateSavedGame(raw: unknown): SavedGame | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Partial<Omit<SavedGame, 'version'>> &
+    Partial<SavedGameV1> & { version?: number };
+
+  if (data.version === SAVED_GAME_VERSION) return data as SavedGame;
+  if (data.version === 2) {
+    return {
+      ...(data as SavedGameV2),
+      version: SAVED_GAME_VERSION,
+      variant: 'standard',
+    };
+  }
+
+  // v1 had no version field; its history is gone, so start from its position
+  if (data.version === undefined && typeof data.fen === 'string') {
+    return {
+      version: SAVED_GAME_VERSION,
+      variant: 'standard',
+      startFen: data.fen,
+      moves: [],
+      result: data.result ?? null,
+      timeControl: data.timeControl ?? null,
+      clock: data.clock ?? null,
+      drawOfferBy: null,
+      takebackBy: null,
+      meta: defaultMeta(),
+    };
+  }
+  return null; // newer or unknown version
+}
+
+// Rebuild the game with its full history; null if the moves no longer replay
+export function restoreGame(saved: SavedGame): Chess | null {
+  try {
+    return replayMoves(saved.moves, saved.startFen, saved.variant);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  BoardEvent,
+  GameResult,
+  Role,
+  Turn,
+  WireMessage,
+} from '../types/messages';
+import { BOARD_EVENT_TYPES, WireEndpoint } from './wire-protocol';
+
+type EventOf<T extends BoardEvent['type']> = Extract<BoardEvent, { type: T }>;
+type Handler = (msg: BoardEvent) => void;
+
+// Drives an embedded /embed-board from a parent page, on this app or on a
+// site listed in environment.embedOrigins:
+//
+//   const client = new BoardClient(iframe, 'https://chess.example.com');
+//   client.on('IFRAME_READY', () => client.assignRole('white'));
+//   client.on('MOVE', ({ move }) => ...);
+//
+// Commands resolve once the board has accepted them.
+export class BoardClient {
+  private endpoint: WireEndpoint;
+  private handlers = new Map<BoardEvent['type'], Set<Handler>>();
+
+  constructor(
+    private frame: HTMLIFrameElement,
+    boardOrigin: string,
+    ackTimeoutMs?: number,
+  ) {
+    this.endpoint = new WireEndpoint({
+      target: () => frame.contentWindow,
+      targetOrigin: boardOrigin,
+      allowedOrigins: [boardOrigin],
+      accepts: BOARD_EVENT_TYPES,
+      onMessage: (msg) => this.emit(msg as BoardEvent),
+      ackTimeoutMs,
+    });
+    window.addEventListener('message', this.onWindowMessage);
+  }
+
+  // Board address for the iframe; tells the board which origin to answer
+  static boardUrl(
+    boardOrigin: string,
+    parentOrigin = window.location.origin,
+  ): string {
+    const params = new URLSearchParams({ origin: parentOrigin });
+    return `${boardOrigin}/embed-board?${params}`;
+  }
+
+  // Listen for one kind of board event; returns the unsubscribe function
+  on<T extends BoardEvent['type']>(
+    type: T,
+    handler: (msg: EventOf<T>) => void,
+  ): () => void {
+    const set = this.handlers.get(type) ?? new Set<Handler>();
+    set.add(handler as Handler);
+    this.handlers.set(type, set);
+    return () => set.delete(handler as Handler);
+  }
+
+  // Commands
+  assignRole(role: Role): Promise<void> {
+    return this.endpoint.send({ type: 'ROLE_ASSIGN', role });
+  }
+  setPosition(fen: string, pgn?: string): Promise<void> {
+    const msg: WireMessage = { type: 'SYNC_STATE', fen, ...(pgn ? { pgn } : {}) };
+    return this.endpoint.send(msg);
+  }
+  setTurn(turn: Turn, ply: number): Promise<void> {
+    return this.endpoint.send({ type: 'TURN', turn, ply });
+  }
+  rejectMove(fen: string, reason: string): Promise<void> {
+    return this.endpoint.send({ type: 'MOVE_REJECTED', fen, reason });
+  }
+  showHistory(fen: string, ply: number): Promise<void> {
+    return this.endpoint.send({ type: 'HISTORY_VIEW', fen, ply });
+  }
+  reset(): Promise<void> {
+    return this.endpoint.send({ type: 'RESET' });
+  }
+  setDrawOffer(offeredBy: Role | null): Promise<void> {
+    return this.endpoint.send({ type: 'DRAW_STATE', offeredBy });
+  }
+  setTakebackRequest(requestedBy: Role | null): Promise<void> {
+    return this.endpoint.send({ type: 'TAKEBACK_STATE', requestedBy });
+  }
+  gameOver(result: GameResult): Promise<void> {
+    return this.endpoint.send({ type: 'GAME_OVER', ...result });
+  }
+
+  // Stop listening; pending commands are rejected
+  destroy(): void {
+    window.removeEventListener('message', this.onWindowMessage);
+    this.endpoint.close();
+    this.handlers.clear();
+  }
+
+  private onWindowMessage = (event: MessageEvent) => {
+    this.endpoint.receive(event);
+  };
+
+  private emit(msg: BoardEvent): void {
+    this.handlers.get(msg.type)?.forEach((handler) => handler(msg));
+  }
+}
@@ -0,0 +1,151 @@
+import { WireMessage } from '../types/messages';
+import { HORDE_FEN } from '../variants/variants';
+import {
+  BOARD_COMMAND_TYPES,
+  BOARD_EVENT_TYPES,
+  embedParentOrigin,
+  validateWireMessage,
+  WireEndpoint,
+  WireTarget,
+  WIRE_VERSION,
+} from './wire-protocol';
+
+const PARENT = 'https://club.example.com';
+const BOARD = 'https://chess.example.com';
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+// Two windows that deliver postMessage straight to the other endpoint,
+// dropping frames addressed to the wrong origin like a browser would
+function connect(parentReceived: WireMessage[], boardReceived: WireMessage[]) {
+  const parentWin: WireTarget = {
+    postMessage: (data, origin) => {
+      if (origin === PARENT) {
+        parent.receive({ data, origin: BOARD, source: boardWin });
+      }
+    },
+  };
+  const boardWin: WireTarget = {
+    postMessage: (data, origin) => {
+      if (origin === BOARD) {
+        board.receive({ data, origin: PARENT, source: parentWin });
+      }
+    },
+  };
+
+  const parent = new WireEndpoint({
+    target: () => boardWin,
+    targetOrigin: BOARD,
+    allowedOrigins: [BOARD],
+    accepts: BOARD_EVENT_TYPES,
+    onMessage: (msg) => parentReceived.push(msg),
+  });
+  const board = new WireEndpoint({
+    target: () => parentWin,
+    targetOrigin: PARENT,
+    allowedOrigins: [PARENT],
+    accepts: BOARD_COMMAND_TYPES,
+    onMessage: (msg) => boardReceived.push(msg),
+  });
+  return { parent, board, parentWin, boardWin };
+}
+
+describe('wire protocol', () => {
+  it('validates every field and keeps only known ones', () => {
+    expect(
+      validateWireMessage(
+        { type: 'SYNC_STATE', fen: START, extra: '<script>' },
+        BOARD_COMMAND_TYPES,
+      ),
+    ).toEqual({ type: 'SYNC_STATE', fen: START });
+    expect(
+      validateWireMessage(
+        { type: 'SYNC_STATE', fen: 'not a fen' },
+        BOARD_COMMAND_TYPES,
+      ),
+    ).toBeNull();
+    expect(
+      validateWireMessage(
+        { type: 'SYNC_STATE', fen: START, variant: 'bughouse' },
+        BOARD_COMMAND_TYPES,
+      ),
+    ).toBeNull();
+    expect(
+      validateWireMessage(
+        { type: 'MOVE', move: { from: 'e7', to: 'e8', promotion: 'k' } },
+        BOARD_EVENT_TYPES,
+      ),
+    ).toBeNull();
+    expect(
+      validateWireMessage(
+        { type: 'TURN', turn: 'w', ply: -1 },
+        BOARD_COMMAND_TYPES,
+      ),
+    ).toBeNull();
+  });
+
+  it('accepts the kingless positions of a Horde game', () => {
+    expect(
+      validateWireMessage(
+        { type: 'SYNC_STATE', fen: HORDE_FEN, variant: 'horde' },
+        BOARD_COMMAND_TYPES,
+      ),
+    ).toEqual({ type: 'SYNC_STATE', fen: HORDE_FEN, variant: 'horde' });
+  });
+
+  it('only accepts messages travelling in the right direction', () => {
+    const move: WireMessage = { type: 'MOVE', move: { from: 'e2', to: 'e4' } };
+    expect(validateWireMessage(move, BOARD_EVENT_TYPES)).toEqual(move);
+    expect(validateWireMessage(move, BOARD_COMMAND_TYPES)).toBeNull();
+  });
+
+  it('passes move list keys from the board to its parent', () => {
+    const key: WireMessage = { type: 'NAVIGATE', key: 'ArrowLeft' };
+    expect(validateWireMessage(key, BOARD_EVENT_TYPES)).toEqual(key);
+    expect(
+      validateWireMessage({ type: 'NAVIGATE', key: 'Enter' }, BOARD_EVENT_TYPES),
+    ).toBeNull();
+  });
+
+  it('acks accepted messages and reports refused ones', async () => {
+    const toParent: WireMessage[] = [];
+    const toBoard: WireMessage[] = [];
+    const { parent, board, parentWin } = connect(toParent, toBoard);
+
+    await parent.send({ type: 'ROLE_ASSIGN', role: 'black' });
+    expect(toBoard).toEqual([{ type: 'ROLE_ASSIGN', role: 'black' }]);
+
+    board.post({ type: 'RESIGN' });
+    expect(toParent).toEqual([{ type: 'RESIGN' }]);
+
+    // A frame from a newer protocol is refused with a reason
+    let reply = '';
+    parentWin.postMessage = (data) => (reply = JSON.stringify(data));
+    board.receive({
+      data: { v: WIRE_VERSION + 1, id: 'x', msg: { type: 'RESET' } },
+      origin: PARENT,
+      source: parentWin,
+    });
+    expect(reply).toContain('Unsupported protocol version');
+    expect(toBoard.length).toBe(1);
+  });
+
+  it('ignores frames from origins that are not allowed', () => {
+    const toBoard: WireMessage[] = [];
+    const { board, parentWin } = connect([], toBoard);
+
+    const handled = board.receive({
+      data: { v: WIRE_VERSION, id: '1', msg: { type: 'RESET' } },
+      origin: 'https://evil.example.com',
+      source: parentWin,
+    });
+    expect(handled).toBeFalse();
+    expect(toBoard).toEqual([]);
+  });
+
+  it('lets the board answer only allowlisted parents', () => {
+    const own = 'https://chess.example.com';
+    expect(embedParentOrigin('', own, [])).toBe(own);
+    expect(embedParentOrigin(`?origin=${PARENT}`, own, [PARENT])).toBe(PARENT);
+    expect(embedParentOrigin(`?origin=${PARENT}`, own, [])).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+import {
+  BoardCommand,
+  BoardEvent,
+  GameOverReason,
+  NavigationKey,
+  WireFrame,
+  WireMessage,
+} from '../types/messages';
+import { isPlayableFen, isVariant } from '../variants/variants';
+
+// Bump when a message changes shape; frames from other versions are refused
+export const WIRE_VERSION = 1;
+
+const MAX_PGN_LENGTH = 100_000;
+const MAX_REASON_LENGTH = 200;
+const ACK_TIMEOUT_MS = 5000;
+
+// Field checks per message type; a message must pass every one
+type Check = (value: unknown) => boolean;
+
+const GAME_OVER_REASONS: Record<GameOverReason, true> = {
+  checkmate: true,
+  stalemate: true,
+  'threefold-repetition': true,
+  'fifty-move-rule': true,
+  'insufficient-material': true,
+  timeout: true,
+  'timeout-vs-insufficient-material': true,
+  resignation: true,
+  agreement: true,
+  aborted: true,
+  abandonment: true,
+  'king-of-the-hill': true,
+  'three-check': true,
+  'horde-captured': true,
+};
+
+const NAVIGATION_KEYS: Record<NavigationKey, true> = {
+  ArrowLeft: true,
+  ArrowRight: true,
+  Home: true,
+  End: true,
+};
+
+// Keys the board hands to its parent's move list
+export function isNavigationKey(key: unknown): key is NavigationKey {
+  return typeof key === 'string' && Object.hasOwn(NAVIGATION_KEYS, key);
+}
+
+const isRole: Check = (v) => v === 'white' || v === 'black';
+const isTurn: Check = (v) => v === 'w' || v === 'b';
+const isBoolean: Check = (v) => typeof v === 'boolean';
+const isPly: Check = (v) => Number.isInteger(v) && (v as number) >= 0;
+const isSquare: Check = (v) => typeof v === 'string' && /^[a-h][1-8]$/.test(v);
+const isFen: Check = (v) => typeof v === 'string' && isPlayableFen(v);
+const isPgn: Check = (v) => typeof v === 'string' && v.length <= MAX_PGN_LENGTH;
+const isReason: Check = (v) =>
+  typeof v === 'string' && v.length <= MAX_REASON_LENGTH;
+const isGameOverReason: Check = (v) =>
+  typeof v === 'string' && Object.hasOwn(GAME_OVER_REASONS, v);
+const isMove: Check = (v) => {
+  if (!v || typeof v !== 'object') return false;
+  const { from, to, promotion } = v as Record<string, unknown>;
+  return (
+    isSquare(from) &&
+    isSquare(to) &&
+    (promotion === undefined ||
+      ['q', 'r', 'b', 'n'].includes(promotion as string))
+  );
+};
+const optional =
+  (check: Check): Check =>
+  (v) =>
+    v === undefined || check(v);
+const nullable =
+  (check: Check): Check =>
+  (v) =>
+    v === null || check(v);
+
+const SCHEMA: { [T in WireMessage['type']]: Record<string, Check> } = {
+  IFRAME_READY: {},
+  ROLE_ASSIGN: { role: isRole },
+  REQUEST_SYNC: {},
+  SYNC_STATE: { fen: isFen, pgn: optional(isPgn), variant: optional(isVariant) },
+  HISTORY_VIEW: { fen: isFen, ply: isPly },
+  MOVE: { move: isMove },
+  MOVE_REJECTED: { fen: isFen, reason: isReason },
+  TURN: { turn: isTurn, ply: isPly },
+  RESET: {},
+  RESIGN: {},
+  ABORT: {},
+  DRAW_OFFER: {},
+  DRAW_REPLY: { accept: isBoolean },
+  DRAW_STATE: { offeredBy: nullable(isRole) },
+  TAKEBACK_REQUEST: {},
+  TAKEBACK_REPLY: { accept: isBoolean },
+  TAKEBACK_STATE: { requestedBy: nullable(isRole) },
+  GAME_OVER: { winner: nullable(isRole), reason: isGameOverReason },
+  NAVIGATE: { key: isNavigationKey },
+};
+
+// Which side of the iframe each message type travels to
+const BOARD_EVENTS: Record<BoardEvent['type'], true> = {
+  IFRAME_READY: true,
+  REQUEST_SYNC: true,
+  MOVE: true,
+  RESIGN: true,
+  ABORT: true,
+  DRAW_OFFER: true,
+  DRAW_REPLY: true,
+  TAKEBACK_REQUEST: true,
+  TAKEBACK_REPLY: true,
+  NAVIGATE: true,
+};
+export const BOARD_EVENT_TYPES = Object.keys(
+  BOARD_EVENTS,
+) as BoardEvent['type'][];
+export const BOARD_COMMAND_TYPES = (
+  Object.keys(SCHEMA) as WireMessage['type'][]
+).filter(
+  (type) => !Object.hasOwn(BOARD_EVENTS, type),
+) as BoardCommand['type'][];
+
+// A well-formed WireMessage of one of `accepts`, keeping only its known
+// fields; null for anything else
+export function validateWireMessage(
+  data: unknown,
+  accepts: readonly WireMessage['type'][],
+): WireMessage | null {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as Record<string, unknown>;
+  const type = raw['type'] as WireMessage['type'];
+  if (!accepts.includes(type) || !Object.hasOwn(SCHEMA, type)) return null;
+
+  const msg: Record<string, unknown> = { type };
+  const fields = SCHEMA[type];
+  for (const key of Object.keys(fields)) {
+    if (!fields[key](raw[key])) return null;
+    if (raw[key] !== undefined) msg[key] = raw[key];
+  }
+  if (type === 'MOVE') {
+    const { from, to, promotion } = raw['move'] as Record<string, unknown>;
+    msg['move'] = promotion ? { from, to, promotion } : { from, to };
+  }
+  return msg as WireMessage;
+}
+
+// Origin an embedded board talks to: its own without ?origin=, otherwise the
+// given origin if it is on the allowlist, else null (refuse to connect)
+export function embedParentOrigin(
+  search: string,
+  ownOrigin: string,
+  allowed: readonly string[],
+): string | null {
+  const origin = new URLSearchParams(search).get('origin');
+  if (!origin || origin === ownOrigin) return ownOrigin;
+  return allowed.includes(origin) ? origin : null;
+}
+
+// What an endpoint needs of the window on the other end
+export interface WireTarget {
+  postMessage(message: unknown, targetOrigin: string): void;
+}
+
+// The parts of a window 'message' event an endpoint reads
+export type WireEvent = Pick<MessageEvent, 'origin'> & {
+  data: unknown;
+  source: unknown;
+};
+
+export interface WireEndpointOptions {
+  target: () => WireTarget | null; // the window on the other end
+  targetOrigin: string; // where our frames may be delivered
+  allowedOrigins: readonly string[]; // whose frames we read
+  accepts: readonly WireMessage['type'][];
+  onMessage: (msg: WireMessage) => void;
+  ackTimeoutMs?: number;
+}
+
+// One end of a board <-> parent conversation over postMessage: wraps each
+// message in a versioned frame, validates what comes in and acks it
+export class WireEndpoint {
+  private nextId = 0;
+  private pending = new Map<
+    string,
+    { resolve: () => void; reject: (err: Error) => void; timer: number }
+  >();
+
+  constructor(private options: WireEndpointOptions) {}
+
+  // Fire and forget
+  post(msg: WireMessage): void {
+    this.postFrame({ v: WIRE_VERSION, id: this.newId(), msg });
+  }
+
+  // Resolves once the other end has accepted the message
+  send(msg: WireMessage): Promise<void> {
+    const id = this.newId();
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`No ack for ${msg.type}`));
+      }, this.options.ackTimeoutMs ?? ACK_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      this.postFrame({ v: WIRE_VERSION, id, msg });
+    });
+  }
+
+  // Handle a window 'message' event; false when it wasn't meant for us
+  receive(event: WireEvent): boolean {
+    const { allowedOrigins, target } = this.options;
+    if (!allowedOrigins.includes(event.origin)) return false; // security
+    if (!event.source || event.source !== target()) return false;
+    const frame = event.data as Partial<WireFrame> | null;
+    if (!frame || typeof frame !== 'object' || typeof frame.id !== 'string') {
+      return false;
+    }
+
+    if ('ack' in frame) {
+      this.settle(frame.ack, frame.error);
+      return true;
+    }
+    if (frame.v !== WIRE_VERSION) {
+      this.ack(frame.id, `Unsupported protocol version ${frame.v}`);
+      return true;
+    }
+    const msg = validateWireMessage(
+      (frame as { msg?: unknown }).msg,
+      this.options.accepts,
+    );
+    if (!msg) {
+      this.ack(frame.id, 'Malformed or unexpected message');
+      return true;
+    }
+    this.ack(frame.id);
+    this.options.onMessage(msg);
+    return true;
+  }
+
+  // Stop waiting for acks
+  close(): void {
+    for (const [id, entry] of this.pending) {
+      window.clearTimeout(entry.timer);
+      entry.reject(new Error('Connection closed'));
+      this.pending.delete(id);
+    }
+  }
+
+  private ack(id: string, error?: string): void {
+    this.postFrame({
+      v: WIRE_VERSION,
+      id: this.newId(),
+      ack: id,
+      ...(error ? { error } : {}),
+    });
+  }
+
+  private settle(id: unknown, error: unknown): void {
+    const entry = typeof id === 'string' ? this.pending.get(id) : undefined;
+    if (!entry) return;
+    this.pending.delete(id as string);
+    window.clearTimeout(entry.timer);
+    if (error) entry.reject(new Error(String(error)));
+    else entry.resolve();
+  }
+
+  private postFrame(frame: WireFrame): void {
+    this.options.target()?.postMessage(frame, this.options.targetOrigin);
+  }
+
+  private newId(): string {
+    return String(++this.nextId);
+  }
+}
@@ -0,0 +1,16 @@
+/// <reference lib="webworker" />
+
+import { Chess } from 'chess.js';
+import { EngineReply, EngineRequest } from '../types/engine';
+import { searchBestMove } from './search';
+
+// Rebuild the game from its moves, think, and answer with the chosen move
+addEventListener('message', ({ data }: MessageEvent<EngineRequest>) => {
+  const chess = new Chess(data.startFen);
+  for (const san of data.moves) chess.move(san);
+  const reply: EngineReply = {
+    id: data.id,
+    move: searchBestMove(chess, data.level),
+  };
+  postMessage(reply);
+});
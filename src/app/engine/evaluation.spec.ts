@@ -0,0 +1,22 @@
+import { Chess } from 'chess.js';
+import { evaluate } from './evaluation';
+
+describe('evaluation', () => {
+  it('scores the start position as level', () => {
+    expect(evaluate(new Chess())).toBe(0);
+  });
+
+  it('scores from the side to move', () => {
+    const white = new Chess('k7/8/8/8/8/8/8/KQ6 w - - 0 1');
+    const black = new Chess('k7/8/8/8/8/8/8/KQ6 b - - 0 1');
+
+    expect(evaluate(white)).toBeGreaterThan(800);
+    expect(evaluate(black)).toBe(-evaluate(white));
+  });
+
+  it('prefers centralised pieces', () => {
+    const centre = new Chess('k7/8/8/8/3N4/8/8/K7 w - - 0 1');
+    const rim = new Chess('k7/8/8/8/N7/8/8/K7 w - - 0 1');
+    expect(evaluate(centre)).toBeGreaterThan(evaluate(rim));
+  });
+});
@@ -0,0 +1,34 @@
+import { Chess } from 'chess.js';
+import { EngineLevel } from '../types/engine';
+import { ENGINE_LEVELS, searchBestMove } from './search';
+
+// Full depth, no noise and time to spare, so the answers are fixed
+const EXACT: EngineLevel = { name: 'Test', depth: 3, timeMs: 10_000, randomness: 0 };
+
+describe('search', () => {
+  it('finds a mate in one', () => {
+    const chess = new Chess('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1');
+    expect(searchBestMove(chess, EXACT)).toEqual({
+      from: 'a1',
+      to: 'a8',
+      promotion: undefined,
+    });
+  });
+
+  it('takes a hanging piece', () => {
+    const chess = new Chess('k7/8/8/3q4/8/4N3/8/K7 w - - 0 1');
+    expect(searchBestMove(chess, EXACT)?.to).toBe('d5');
+  });
+
+  it('leaves the position as it found it', () => {
+    const chess = new Chess();
+    chess.move('e4');
+    searchBestMove(chess, ENGINE_LEVELS[0]);
+    expect(chess.history()).toEqual(['e4']);
+  });
+
+  it('has nothing to play once the game is over', () => {
+    const mated = new Chess('R5k1/5ppp/8/8/8/8/8/6K1 b - - 1 1');
+    expect(searchBestMove(mated, EXACT)).toBeNull();
+  });
+});
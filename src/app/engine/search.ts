@@ -0,0 +1,136 @@
+import { Chess, Move } from 'chess.js';
+import { EngineLevel } from '../types/engine';
+import { MoveInput } from '../types/messages';
+import { evaluate, PIECE_VALUES } from './evaluation';
+
+export const ENGINE_LEVELS: EngineLevel[] = [
+  { name: 'Beginner', depth: 1, timeMs: 300, randomness: 120 },
+  { name: 'Casual', depth: 2, timeMs: 800, randomness: 40 },
+  { name: 'Club', depth: 3, timeMs: 2000, randomness: 10 },
+  { name: 'Strong', depth: 5, timeMs: 4000, randomness: 0 },
+];
+
+const MATE = 100_000;
+const INFINITY = 1_000_000;
+const QUIESCENCE_DEPTH = 4; // max capture plies after the horizon
+
+// Pick a move for the side to move; null when the game is already over
+export function searchBestMove(chess: Chess, level: EngineLevel): MoveInput | null {
+  const search = new Search(chess, level);
+  const move = search.run();
+  return move
+    ? { from: move.from, to: move.to, promotion: move.promotion as MoveInput['promotion'] }
+    : null;
+}
+
+// Iterative-deepening negamax with alpha-beta and a capture-only quiescence
+class Search {
+  private readonly deadline: number;
+  private nodes = 0;
+  private aborted = false;
+
+  constructor(
+    private readonly chess: Chess,
+    private readonly level: EngineLevel,
+  ) {
+    this.deadline = Date.now() + level.timeMs;
+  }
+
+  run(): Move | null {
+    const moves = this.chess.moves({ verbose: true });
+    if (!moves.length) return null;
+
+    let best: Move = moves[0];
+    for (let depth = 1; depth <= this.level.depth; depth++) {
+      const found = this.searchRoot(moves, depth, best);
+      if (this.aborted) break; // keep the last completed depth
+      best = found;
+    }
+    return best;
+  }
+
+  private searchRoot(moves: Move[], depth: number, previous: Move): Move {
+    // Previous best first, then captures by value
+    const ordered = this.order(moves).sort((a, b) =>
+      a.san === previous.san ? -1 : b.san === previous.san ? 1 : 0,
+    );
+    const noisy = this.level.randomness > 0;
+    let best = ordered[0];
+    let bestScore = -INFINITY;
+    let alpha = -INFINITY;
+
+    for (const move of ordered) {
+      this.chess.move(move);
+      // With noise every root move needs an exact score, so no root cut-offs
+      let score = -this.negamax(depth - 1, -INFINITY, noisy ? INFINITY : -alpha, 1);
+      this.chess.undo();
+      if (this.aborted) break;
+
+      if (noisy) score += Math.random() * this.level.randomness;
+      if (score > bestScore) {
+        bestScore = score;
+        best = move;
+      }
+      alpha = Math.max(alpha, score);
+    }
+    return best;
+  }
+
+  private negamax(depth: number, alpha: number, beta: number, ply: number): number {
+    if (this.outOfTime()) return 0;
+    if (this.chess.isInsufficientMaterial() || this.chess.isThreefoldRepetition()) {
+      return 0;
+    }
+    if (depth <= 0) return this.quiesce(alpha, beta, 0);
+
+    const moves = this.chess.moves({ verbose: true });
+    if (!moves.length) return this.chess.inCheck() ? -MATE + ply : 0;
+
+    for (const move of this.order(moves)) {
+      this.chess.move(move);
+      const score = -this.negamax(depth - 1, -beta, -alpha, ply + 1);
+      this.chess.undo();
+      if (this.aborted) return 0;
+      if (score >= beta) return beta;
+      if (score > alpha) alpha = score;
+    }
+    return alpha;
+  }
+
+  // Resolve pending captures so the static eval isn't read mid-exchange
+  private quiesce(alpha: number, beta: number, qply: number): number {
+    const standPat = evaluate(this.chess);
+    if (standPat >= beta) return beta;
+    if (standPat > alpha) alpha = standPat;
+    if (qply >= QUIESCENCE_DEPTH || this.outOfTime()) return alpha;
+
+    const captures = this.chess
+      .moves({ verbose: true })
+      .filter((m) => m.captured || m.promotion);
+    for (const move of this.order(captures)) {
+      this.chess.move(move);
+      const score = -this.quiesce(-beta, -alpha, qply + 1);
+      this.chess.undo();
+      if (this.aborted) return 0;
+      if (score >= beta) return beta;
+      if (score > alpha) alpha = score;
+    }
+    return alpha;
+  }
+
+  // Most valuable victim / least valuable attacker, promotions first
+  private order(moves: Move[]): Move[] {
+    const score = (m: Move) =>
+      (m.promotion ? PIECE_VALUES.q : 0) +
+      (m.captured ? 10 * PIECE_VALUES[m.captured] - PIECE_VALUES[m.piece] : 0);
+    return [...moves].sort((a, b) => score(b) - score(a));
+  }
+
+  // Clock check every 1024 nodes keeps Date.now() off the hot path
+  private outOfTime(): boolean {
+    if (!this.aborted && (++this.nodes & 1023) === 0) {
+      this.aborted = Date.now() > this.deadline;
+    }
+    return this.aborted;
+  }
+}
@@ -0,0 +1,21 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AnalysisComponent } from './analysis.component';
+
+describe('AnalysisComponent', () => {
+  let component: AnalysisComponent;
+  let fixture: ComponentFixture<AnalysisComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [AnalysisComponent]
+    });
+    fixture = TestBed.createComponent(AnalysisComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
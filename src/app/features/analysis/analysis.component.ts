@@ -0,0 +1,282 @@
+import {
+  AfterViewInit,
+  Component,
+  HostListener,
+  Inject,
+  ViewChild,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { NgxChessBoardModule, NgxChessBoardView } from 'ngx-chess-board';
+import { Chess } from 'chess.js';
+import { StorageService, STORAGE_KEY } from '../../services/storage.service';
+import { ExportService } from '../../services/export.service';
+import { detectResult, resultText } from '../../chess/game-result';
+import { lastBoardMove, routePromotionDialog } from '../../chess/moves';
+import { pgnFileName } from '../../chess/pgn';
+import { readAnalysisLink } from '../../analysis/analysis-link';
+import {
+  MOVE_NAGS,
+  SavedTree,
+  VariationNode,
+  VariationTree,
+} from '../../analysis/variation-tree';
+import { PromotionPickerComponent } from '../../shared/promotion-picker/promotion-picker.component';
+import { VariationListComponent } from '../../shared/variation-list/variation-list.component';
+import { Promotion, Role } from '../../types/messages';
+
+// One board, both colours: try moves, branch into variations and annotate
+@Component({
+  selector: 'app-analysis',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    NgxChessBoardModule,
+    PromotionPickerComponent,
+    VariationListComponent,
+  ],
+  templateUrl: './analysis.component.html',
+  styleUrls: ['./analysis.component.scss'],
+  providers: [
+    { provide: STORAGE_KEY, useValue: 'analysis-state' },
+    { provide: StorageService, useClass: StorageService<SavedTree> },
+  ],
+})
+export class AnalysisComponent implements AfterViewInit {
+  @ViewChild('board', { static: true }) board!: NgxChessBoardView;
+
+  readonly nags = MOVE_NAGS;
+
+  tree = new VariationTree();
+  statusText = 'White to move';
+  importText = ''; // pasted FEN or PGN
+  importError = '';
+  exportNote = '';
+  promotionAnswer: ((piece: Promotion) => void) | null = null; // picker open
+  private applyingBoard = false; // true while the board is set from code
+  private flipped = false;
+
+  constructor(
+    @Inject(StorageService) private storage: StorageService<SavedTree>,
+    private exporter: ExportService,
+  ) {}
+
+  ngAfterViewInit(): void {
+    // Our picker replaces the board's own promotion dialog
+    routePromotionDialog(this.board, (answer) => (this.promotionAnswer = answer));
+
+    // A game handed over by another page wins over the last session
+    const link = readAnalysisLink(window.location.search);
+    let tree: VariationTree | null = null;
+    let linkError = '';
+    if (link) {
+      try {
+        tree = VariationTree.fromText(link.pgn);
+        if (link.ply === null) tree.toEnd();
+        else tree.toPly(link.ply);
+      } catch (err) {
+        tree = null;
+        const reason = err instanceof Error ? err.message : 'unreadable';
+        linkError = `Could not open that game: ${reason}`;
+      }
+      history.replaceState(history.state, '', window.location.pathname);
+    }
+    const saved = this.storage.load();
+    tree ??= saved ? VariationTree.restore(saved) : null;
+
+    // Defer state changes so they land after this change-detection pass
+    setTimeout(() => {
+      if (tree) this.tree = tree;
+      this.importError = linkError;
+      this.refresh();
+    });
+  }
+
+  // Only the side to move can be dragged, so the board can't get ahead of the tree
+  get turn(): Role {
+    return this.tree.current.fen.split(' ')[1] === 'b' ? 'black' : 'white';
+  }
+  get darkDisabled(): boolean {
+    return this.turn === 'white' || !!this.promotionAnswer;
+  }
+  get lightDisabled(): boolean {
+    return this.turn === 'black' || !!this.promotionAnswer;
+  }
+
+  get selected(): VariationNode | null {
+    return this.tree.current.parent ? this.tree.current : null;
+  }
+  get canPromote(): boolean {
+    return !!this.selected && !this.tree.isMainLine(this.selected);
+  }
+
+  // Comment on the selected move
+  get comment(): string {
+    return this.selected?.comment ?? '';
+  }
+  set comment(text: string) {
+    if (!this.selected) return;
+    this.tree.setComment(this.selected, text);
+    this.persist();
+  }
+
+  // A piece was dropped: follow or add the move, or put the piece back
+  onUserMove(): void {
+    if (this.applyingBoard) return;
+    const move = lastBoardMove(this.board);
+    try {
+      if (!move) throw new Error('Unreadable move');
+      this.tree.play(move);
+    } catch {
+      // illegal: the board snaps back below
+    }
+    this.refresh();
+  }
+
+  choosePromotion(piece: Promotion): void {
+    const answer = this.promotionAnswer;
+    this.promotionAnswer = null;
+    answer?.(piece);
+  }
+
+  cancelPromotion(): void {
+    this.promotionAnswer = null;
+    this.refresh();
+  }
+
+  // Move list and navigation
+  select(node: VariationNode): void {
+    this.tree.goTo(node);
+    this.refresh();
+  }
+  toStart(): void {
+    this.tree.toStart();
+    this.refresh();
+  }
+  back(): void {
+    this.tree.back();
+    this.refresh();
+  }
+  forward(): void {
+    this.tree.forward();
+    this.refresh();
+  }
+  toEnd(): void {
+    this.tree.toEnd();
+    this.refresh();
+  }
+
+  // Annotation and variation actions on the selected move
+  toggleNag(nag: number): void {
+    if (!this.selected) return;
+    this.tree.toggleNag(this.selected, nag);
+    this.persist();
+  }
+  hasNag(nag: number): boolean {
+    return !!this.selected?.nags.includes(nag);
+  }
+  promote(): void {
+    if (!this.selected) return;
+    this.tree.promote(this.selected);
+    this.persist();
+  }
+  removeFromHere(): void {
+    if (!this.selected) return;
+    this.tree.remove(this.selected);
+    this.refresh();
+  }
+
+  flip(): void {
+    this.flipped = !this.flipped;
+    this.board.reverse();
+  }
+
+  // Start over from a pasted FEN or PGN, or the initial position
+  load(): void {
+    if (!this.importText.trim()) {
+      this.importError = 'Paste a FEN or PGN first.';
+      return;
+    }
+    try {
+      this.tree = VariationTree.fromText(this.importText);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'unreadable';
+      this.importError = `Could not read that: ${reason}`;
+      return;
+    }
+    this.tree.toEnd();
+    this.importText = '';
+    this.importError = '';
+    this.refresh();
+  }
+  clear(): void {
+    this.tree = new VariationTree();
+    this.importError = '';
+    this.refresh();
+  }
+
+  // Export actions
+  async copyPgn(): Promise<void> {
+    const copied = await this.exporter.copyText(this.tree.pgn());
+    if (copied) this.exportNote = 'PGN copied';
+  }
+  async copyFen(): Promise<void> {
+    const copied = await this.exporter.copyText(this.tree.current.fen);
+    if (copied) this.exportNote = 'FEN copied';
+  }
+  downloadPgn(): void {
+    this.exporter.download(pgnFileName(), this.tree.pgn());
+  }
+
+  // Arrow keys step through the line; ignored while typing in a field
+  @HostListener('window:keydown', ['$event'])
+  onKey(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, select')) return;
+
+    switch (event.key) {
+      case 'ArrowLeft':
+        this.back();
+        break;
+      case 'ArrowRight':
+        this.forward();
+        break;
+      case 'Home':
+        this.toStart();
+        break;
+      case 'End':
+        this.toEnd();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  // Show the selected position and save the tree
+  private refresh(): void {
+    const chess = new Chess(this.tree.current.fen);
+    const result = detectResult(chess);
+    this.statusText = result
+      ? resultText(result)
+      : `${this.turn === 'white' ? 'White' : 'Black'} to move`;
+    this.applyFen(chess.fen());
+    this.persist();
+  }
+
+  private persist(): void {
+    this.storage.save(this.tree.save());
+  }
+
+  // Show a position without treating it as a user move; keeps the flip
+  private applyFen(fen: string): void {
+    this.applyingBoard = true;
+    try {
+      this.board.setFEN(fen);
+      if (this.flipped) this.board.reverse();
+    } finally {
+      this.applyingBoard = false;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Chess } from 'chess.js';
+
+import { ArchiveComponent } from './archive.component';
+import { ArchivedGame } from '../../types/archive';
+import { enableChess960Castling } from '../../variants/chess960';
+
+// An archive entry around `pgn`, as a finished hotseat game
+function archived(pgn: string): ArchivedGame {
+  return {
+    id: 'game-1',
+    mode: 'offline',
+    pgn,
+    result: { winner: null, reason: 'agreement' },
+    score: '1/2-1/2',
+    playedAt: 0,
+    white: 'White',
+    black: 'Black',
+    playerColor: null,
+    opponent: '',
+  };
+}
+
+describe('ArchiveComponent', () => {
+  let component: ArchiveComponent;
+  let fixture: ComponentFixture<ArchiveComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [ArchiveComponent]
+    });
+    fixture = TestBed.createComponent(ArchiveComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('opens a Chess960 game, castles and all', () => {
+    const fen = 'rk4rq/pppppppp/8/8/8/8/PPPPPPPP/RK4RQ w KQkq - 0 1';
+    const chess = enableChess960Castling(new Chess(fen));
+    chess.move('O-O');
+    chess.setHeader('Variant', 'Chess960');
+
+    component.open(archived(chess.pgn()));
+
+    expect(component.moves).toEqual(['O-O']);
+    expect(component.statusText).toBe('');
+  });
+
+  it('says so when a game cannot be read', () => {
+    component.open(archived('[Variant "Crazyhouse"]\n\n1. e4 *'));
+
+    expect(component.opened).toBeNull();
+    expect(component.statusText).toBe(
+      "Couldn't open that game; its moves can't be read.",
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { Component, OnInit, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { NgxChessBoardModule, NgxChessBoardView } from 'ngx-chess-board';
+import { Chess } from 'chess.js';
+import { fenAtPly, showPosition } from '../../chess/moves';
+import { pgnFileName } from '../../chess/pgn';
+import { resultText } from '../../chess/game-result';
+import { ArchiveService } from '../../services/archive.service';
+import { ExportService } from '../../services/export.service';
+import { MoveListComponent } from '../../shared/move-list/move-list.component';
+import { ArchivedGame, GameMode } from '../../types/archive';
+import { Role, Score } from '../../types/messages';
+import { loadVariantPgn, pgnVariant } from '../../variants/variants';
+
+type ModeFilter = GameMode | 'all';
+type ResultFilter = Score | 'all';
+type ColourFilter = Role | 'all';
+
+@Component({
+  selector: 'app-archive',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NgxChessBoardModule, MoveListComponent],
+  templateUrl: './archive.component.html',
+  styleUrls: ['./archive.component.scss'],
+})
+export class ArchiveComponent implements OnInit {
+  @ViewChild('board', { static: true }) board!: NgxChessBoardView;
+
+  games: ArchivedGame[] = [];
+  loading = true;
+
+  // Filters
+  mode: ModeFilter = 'all';
+  result: ResultFilter = 'all';
+  colour: ColourFilter = 'all'; // side I played; hotseat games have none
+
+  // Bulk actions
+  selected = new Set<string>();
+  confirmingDelete = false;
+  statusText = '';
+
+  // Replay
+  opened: ArchivedGame | null = null;
+  moves: string[] = [];
+  viewPly: number | null = null;
+  private chess = new Chess();
+  private isReversed = false;
+
+  constructor(
+    private archive: ArchiveService,
+    private exporter: ExportService,
+  ) {}
+
+  ngOnInit(): void {
+    void this.reload();
+  }
+
+  get filtered(): ArchivedGame[] {
+    return this.games.filter(
+      (g) =>
+        (this.mode === 'all' || g.mode === this.mode) &&
+        (this.result === 'all' || g.score === this.result) &&
+        (this.colour === 'all' || g.playerColor === this.colour),
+    );
+  }
+
+  get allSelected(): boolean {
+    const shown = this.filtered;
+    return shown.length > 0 && shown.every((g) => this.selected.has(g.id));
+  }
+
+  resultLabel(game: ArchivedGame): string {
+    return resultText(game.result);
+  }
+
+  toggle(id: string): void {
+    if (this.selected.has(id)) this.selected.delete(id);
+    else this.selected.add(id);
+    this.confirmingDelete = false;
+  }
+
+  // Select or clear everything the filters currently show
+  toggleAll(): void {
+    const select = !this.allSelected;
+    for (const g of this.filtered) {
+      if (select) this.selected.add(g.id);
+      else this.selected.delete(g.id);
+    }
+    this.confirmingDelete = false;
+  }
+
+  // Load a game's moves and show its final position
+  open(game: ArchivedGame): void {
+    let chess: Chess;
+    try {
+      const variant = pgnVariant(game.pgn);
+      if (!variant) throw new Error('Unknown variant');
+      chess = loadVariantPgn(game.pgn, variant);
+    } catch {
+      // Unreadable entry; leave the current replay alone
+      this.statusText = "Couldn't open that game; its moves can't be read.";
+      return;
+    }
+    this.statusText = '';
+    this.opened = game;
+    this.chess = chess;
+    this.moves = chess.history();
+    this.onViewPly(null);
+  }
+
+  close(): void {
+    this.opened = null;
+    this.chess = new Chess();
+    this.moves = [];
+    this.onViewPly(null);
+  }
+
+  onViewPly(ply: number | null): void {
+    this.viewPly = ply;
+    const fen = ply === null ? this.chess.fen() : fenAtPly(this.chess, ply);
+    // Show the game from the side I played
+    const blackBelow = this.opened?.playerColor === 'black';
+    this.isReversed = showPosition(this.board, fen, blackBelow);
+  }
+
+  // One PGN file with every selected game, oldest first
+  exportSelected(): void {
+    const pgns = this.games
+      .filter((g) => this.selected.has(g.id))
+      .reverse()
+      .map((g) => g.pgn.trim());
+    if (!pgns.length) return;
+    this.exporter.download(pgnFileName(), pgns.join('\n\n') + '\n');
+  }
+
+  async deleteSelected(): Promise<void> {
+    const ids = [...this.selected];
+    if (!ids.length) return;
+    if (!this.confirmingDelete) {
+      this.confirmingDelete = true; // second click confirms
+      return;
+    }
+    const removed = await this.archive.remove(ids);
+    this.confirmingDelete = false;
+    await this.reload();
+
+    // Anything still listed survived the delete; keep it selected to retry
+    const kept = new Set(this.games.map((g) => g.id));
+    if (this.opened && !kept.has(this.opened.id)) this.close();
+    for (const id of ids) if (!kept.has(id)) this.selected.delete(id);
+    this.statusText = removed ? '' : "Couldn't delete every selected game.";
+  }
+
+  private async reload(): Promise<void> {
+    this.games = await this.archive.list();
+    this.loading = false;
+  }
+}
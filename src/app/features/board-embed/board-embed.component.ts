@@ -1,12 +1,40 @@
-import { AfterViewInit, Component, OnDestroy, ViewChild } from '@angular/core';
+import {
+  AfterViewInit,
+  Component,
+  HostListener,
+  OnDestroy,
+  ViewChild,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { NgxChessBoardModule, NgxChessBoardView } from 'ngx-chess-board';
-import { Role, WireMessage } from '../../types/messages';
+import { Chess, Move } from 'chess.js';
+import { environment } from '../../../environments/environment';
+import {
+  BOARD_COMMAND_TYPES,
+  embedParentOrigin,
+  isNavigationKey,
+  WireEndpoint,
+} from '../../embed/wire-protocol';
+import { ABORT_PLY_LIMIT, resultText } from '../../chess/game-result';
+import {
+  lastBoardMove,
+  orientBoard,
+  routePromotionDialog,
+  showPosition,
+} from '../../chess/moves';
+import { PromotionPickerComponent } from '../../shared/promotion-picker/promotion-picker.component';
+import { Promotion, Role, WireMessage } from '../../types/messages';
+import { Variant } from '../../types/variant';
+import {
+  castleMoves,
+  loadVariantPgn,
+  variantChess,
+} from '../../variants/variants';
 
 @Component({
   selector: 'app-board-embed',
   standalone: true,
-  imports: [CommonModule, NgxChessBoardModule],
+  imports: [CommonModule, NgxChessBoardModule, PromotionPickerComponent],
   templateUrl: './board-embed.component.html',
   styleUrls: ['./board-embed.component.scss'],
 })
@@ -15,50 +43,145 @@ export class BoardEmbedComponent implements AfterViewInit, OnDestroy {
 
   role: Role | null = null; // white or black, assigned by parent
   moveDisabled = true; // true when it's not this side's turn
+  gameOverText = ''; // final result shown in the mini bar
+  canAbort = false; // true until both sides have moved
+  hasMoves = false; // something to take back
+  drawOfferedBy: Role | null = null; // pending draw offer, as relayed by parent
+  takebackRequestedBy: Role | null = null; // pending takeback request
+  viewingHistory = false; // parent is showing an earlier position read-only
+  lastMoveText = ''; // e.g. "12… Nf6", read from the synced PGN
+  promotionAnswer: ((piece: Promotion) => void) | null = null; // picker open
+  variant: Variant = 'standard'; // as sent with the position
+  castles: Move[] = []; // Chess960 castles open to me, which can't be dragged
   private applyingRemote = false; // true while applying SYNC/RESET to avoid echoing
   private isReversed = false; // tracks visual rotation for black
 
+  // The parent page: this app, or an allowlisted site given by ?origin=
+  private readonly parentOrigin = embedParentOrigin(
+    window.location.search,
+    window.location.origin,
+    environment.embedOrigins,
+  );
+  private endpoint = new WireEndpoint({
+    target: () => window.parent,
+    targetOrigin: this.parentOrigin ?? window.location.origin,
+    allowedOrigins: this.parentOrigin ? [this.parentOrigin] : [],
+    accepts: BOARD_COMMAND_TYPES,
+    onMessage: (msg) => this.onMessage(msg),
+  });
+
+  // Embedded by a site that isn't on the allowlist
+  get blocked(): boolean {
+    return !this.parentOrigin;
+  }
+
   // Disable drags per side
   get darkDisabled(): boolean {
-    return this.role === 'white' || this.moveDisabled || this.applyingRemote;
+    return this.role === 'white' || this.locked;
   }
   get lightDisabled(): boolean {
-    return this.role === 'black' || this.moveDisabled || this.applyingRemote;
+    return this.role === 'black' || this.locked;
+  }
+  private get locked(): boolean {
+    return (
+      this.moveDisabled ||
+      this.applyingRemote ||
+      this.viewingHistory ||
+      !!this.promotionAnswer
+    );
+  }
+
+  // Opponent's offers waiting for my answer
+  get drawOfferedToMe(): boolean {
+    return !!this.drawOfferedBy && this.drawOfferedBy !== this.role;
+  }
+  get takebackRequestedOfMe(): boolean {
+    return !!this.takebackRequestedBy && this.takebackRequestedBy !== this.role;
   }
 
   ngAfterViewInit(): void {
+    // Our picker replaces the board's own promotion dialog
+    routePromotionDialog(this.board, (answer) => (this.promotionAnswer = answer));
+
+    if (this.blocked) return;
+
     // Tell parent we're ready and ask for the current state
-    window.parent.postMessage(
-      { type: 'IFRAME_READY' } as WireMessage,
-      window.location.origin,
-    );
-    window.parent.postMessage(
-      { type: 'REQUEST_SYNC' } as WireMessage,
-      window.location.origin,
-    );
+    this.postToParent({ type: 'IFRAME_READY' });
+    this.postToParent({ type: 'REQUEST_SYNC' });
 
     // Listen to parent-only messages (role, sync, turn, reset, game over)
-    window.addEventListener('message', this.onMessage);
+    window.addEventListener('message', this.onWindowMessage);
   }
 
   ngOnDestroy(): void {
-    window.removeEventListener('message', this.onMessage);
+    window.removeEventListener('message', this.onWindowMessage);
+    this.endpoint.close();
   }
 
-  // A local drag finished: report the new FEN to the parent
+  // A local drag finished: report the move to the parent for validation
   onUserMove(): void {
     if (this.applyingRemote) return;
-    const fen = this.board.getFEN();
-    const msg: WireMessage = { type: 'BOARD_UPDATE', fen };
-    window.parent.postMessage(msg, window.location.origin);
+    const move = lastBoardMove(this.board);
+    if (!move) return;
+    this.postToParent({ type: 'MOVE', move });
+  }
+
+  // A Chess960 castle, sent as the king moving onto its rook
+  castle(move: Move): void {
+    if (this.locked) return;
+    this.castles = [];
+    this.postToParent({ type: 'MOVE', move: { from: move.from, to: move.to } });
   }
 
-  // Handle commands from the parent window
-  private onMessage = (event: MessageEvent<WireMessage>) => {
-    if (event.origin !== window.location.origin) return; // same-origin guard
-    const msg = event.data;
-    if (!msg || typeof msg !== 'object' || !('type' in msg)) return;
+  // Keys pressed here never reach the parent page, whose move list they
+  // step; hand them over
+  @HostListener('window:keydown', ['$event'])
+  onKey(event: KeyboardEvent): void {
+    if (!this.role || !isNavigationKey(event.key)) return;
+    this.postToParent({ type: 'NAVIGATE', key: event.key });
+    event.preventDefault();
+  }
+
+  // The piece goes out with the move, via onUserMove
+  choosePromotion(piece: Promotion): void {
+    const answer = this.promotionAnswer;
+    this.promotionAnswer = null;
+    answer?.(piece);
+  }
+
+  // Changed my mind: put the pawn back by asking for the real position
+  cancelPromotion(): void {
+    this.promotionAnswer = null;
+    this.postToParent({ type: 'REQUEST_SYNC' });
+  }
+
+  // In-game actions; the parent decides whether they end the game
+  resign(): void {
+    this.postToParent({ type: 'RESIGN' });
+  }
+  abort(): void {
+    this.postToParent({ type: 'ABORT' });
+  }
+  offerDraw(): void {
+    this.postToParent({ type: 'DRAW_OFFER' });
+  }
+  answerDraw(accept: boolean): void {
+    this.postToParent({ type: 'DRAW_REPLY', accept });
+  }
+  requestTakeback(): void {
+    this.postToParent({ type: 'TAKEBACK_REQUEST' });
+  }
+  answerTakeback(accept: boolean): void {
+    this.postToParent({ type: 'TAKEBACK_REPLY', accept });
+  }
+
+  // Frames from anywhere but the parent are ignored by the endpoint
+  private onWindowMessage = (event: MessageEvent) => {
+    this.endpoint.receive(event);
+  };
 
+  // Handle commands from the parent window, already validated
+  private onMessage(msg: WireMessage): void {
     switch (msg.type) {
       case 'ROLE_ASSIGN':
         // Set my side and orient the board if black
@@ -68,15 +191,21 @@ export class BoardEmbedComponent implements AfterViewInit, OnDestroy {
 
       case 'SYNC_STATE':
         // Mirror the exact board state sent by the parent
-        this.applyingRemote = true;
-        try {
-          this.board.setFEN(msg.fen);
-          // setFEN may reset orientation; re-apply if needed
-          this.isReversed = false;
-          this.ensureOrientation();
-        } finally {
-          this.applyingRemote = false;
-        }
+        this.viewingHistory = false;
+        this.applyFen(msg.fen);
+        this.variant = msg.variant ?? 'standard';
+        this.readGame(msg.fen, msg.pgn);
+        break;
+
+      case 'HISTORY_VIEW':
+        // Show an earlier position; SYNC_STATE returns to live
+        this.viewingHistory = true;
+        this.applyFen(msg.fen);
+        break;
+
+      case 'MOVE_REJECTED':
+        // Parent refused my move: roll the board back to its position
+        this.applyFen(msg.fen);
         break;
 
       case 'TURN':
@@ -85,11 +214,22 @@ export class BoardEmbedComponent implements AfterViewInit, OnDestroy {
         const isMyTurn: boolean =
           (this.role === 'white' && msg.turn === 'w') ||
           (this.role === 'black' && msg.turn === 'b');
-        this.moveDisabled = !isMyTurn;
+        this.moveDisabled = !isMyTurn || !!this.gameOverText; // stay frozen once over
+        this.canAbort = msg.ply < ABORT_PLY_LIMIT;
+        this.hasMoves = msg.ply > 0;
+        break;
+
+      case 'DRAW_STATE':
+        this.drawOfferedBy = msg.offeredBy;
+        break;
+
+      case 'TAKEBACK_STATE':
+        this.takebackRequestedBy = msg.requestedBy;
         break;
 
       case 'RESET':
         // Fresh board; keep black orientation after reset
+        this.viewingHistory = false;
         this.applyingRemote = true;
         try {
           this.board.reset();
@@ -100,21 +240,64 @@ export class BoardEmbedComponent implements AfterViewInit, OnDestroy {
         this.ensureOrientation();
         // White starts enabled
         this.moveDisabled = this.role !== 'white';
+        this.gameOverText = '';
+        this.lastMoveText = '';
+        this.castles = [];
         break;
 
       case 'GAME_OVER':
         // Freeze interaction on game end
         this.moveDisabled = true;
+        this.gameOverText = resultText(msg);
+        this.drawOfferedBy = null;
+        this.takebackRequestedBy = null;
         break;
     }
-  };
+  }
+
+  // Last move and open castles, from the game replayed under its variant
+  private readGame(fen: string, pgn?: string): void {
+    let game: Chess | null = null;
+    try {
+      game = pgn ? loadVariantPgn(pgn, this.variant) : null;
+    } catch {
+      game = null;
+    }
+    this.lastMoveText = game ? lastMoveOf(game) : '';
+    if (this.variant !== 'chess960') {
+      this.castles = [];
+      return;
+    }
+    // Castling rooks are only known from the start, so prefer the replay
+    this.castles = castleMoves(game ?? variantChess(this.variant, fen));
+  }
+
+  // All traffic goes to the parent page
+  private postToParent(msg: WireMessage): void {
+    this.endpoint.post(msg);
+  }
+
+  // Set a position without echoing it back as a user move
+  private applyFen(fen: string): void {
+    this.applyingRemote = true;
+    try {
+      this.isReversed = showPosition(this.board, fen, this.role === 'black');
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
 
   // Rotate board exactly once if I'm black; no-op for white
   private ensureOrientation(): void {
-    const shouldBeReversed = this.role === 'black';
-    if (shouldBeReversed !== this.isReversed) {
-      this.board.reverse();
-      this.isReversed = shouldBeReversed;
-    }
+    const blackBelow = this.role === 'black';
+    this.isReversed = orientBoard(this.board, this.isReversed, blackBelow);
   }
 }
+
+// Last move of a game in move-list style, or '' when there is none
+function lastMoveOf(chess: Chess): string {
+  const last = chess.history({ verbose: true }).pop();
+  if (!last) return '';
+  const number = last.before.split(' ')[5];
+  return `${number}${last.color === 'w' ? '.' : '…'} ${last.san}`;
+}
@@ -0,0 +1,314 @@
+import { Component, ViewChild, OnDestroy, Inject, AfterViewInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { NgxChessBoardModule, NgxChessBoardView } from 'ngx-chess-board';
+import { Chess } from 'chess.js';
+import { StorageService, STORAGE_KEY } from '../../services/storage.service';
+import {
+  fenAtPly,
+  lastBoardMove,
+  playMove,
+  replayMoves,
+  showPosition,
+} from '../../chess/moves';
+import {
+  detectResult,
+  opponentOf,
+  resultScore,
+  resultText,
+} from '../../chess/game-result';
+import { exportPgn } from '../../chess/pgn';
+import { ArchiveService } from '../../services/archive.service';
+import { ENGINE_LEVELS, searchBestMove } from '../../engine/search';
+import { MoveListComponent } from '../../shared/move-list/move-list.component';
+import { EngineReply, EngineRequest } from '../../types/engine';
+import { GameResult, Role } from '../../types/messages';
+
+type SideChoice = Role | 'random';
+
+interface ComputerLocalState {
+  role: Role; // the human's side
+  level: number; // index into ENGINE_LEVELS
+  startFen: string;
+  moves: string[]; // SAN moves in play order
+  result?: GameResult | null;
+}
+
+@Component({
+  selector: 'app-computer-game',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NgxChessBoardModule, MoveListComponent],
+  templateUrl: './computer-game.component.html',
+  styleUrls: ['./computer-game.component.scss'],
+  providers: [
+    { provide: STORAGE_KEY, useValue: 'computer-game-state' },
+    { provide: StorageService, useClass: StorageService<ComputerLocalState> },
+  ],
+})
+export class ComputerGameComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('board', { static: true }) board!: NgxChessBoardView;
+
+  readonly levels = ENGINE_LEVELS;
+
+  // Setup picked before a game
+  sideChoice: SideChoice = 'white';
+  level = 1;
+
+  // Game state
+  private chess = new Chess();
+  private startFen = this.chess.fen();
+  role: Role | null = null; // null until a game is started
+  result: GameResult | null = null;
+  thinking = false; // engine is searching
+  moves: string[] = []; // SAN history for the move list
+  viewPly: number | null = null; // earlier position shown read-only
+  overlayVisible = false;
+  private applyingBoard = false; // true while the board is set from code
+
+  // Engine
+  private worker: Worker | null = null;
+  private requestId = 0; // replies for older requests are ignored
+  private fallbackTimer: number | null = null;
+
+  // Only the human's colour is draggable, and only on their turn
+  get darkDisabled(): boolean {
+    return this.role === 'white' || this.locked;
+  }
+  get lightDisabled(): boolean {
+    return this.role === 'black' || this.locked;
+  }
+  private get locked(): boolean {
+    return !this.role || !!this.result || this.thinking || this.viewPly !== null;
+  }
+
+  get statusText(): string {
+    if (!this.role) return 'Pick a side and a level, then start.';
+    if (this.result) return resultText(this.result);
+    if (this.thinking) return `${this.levelName} is thinking…`;
+    return 'Your move';
+  }
+
+  get levelName(): string {
+    return this.levels[this.level]?.name ?? 'Computer';
+  }
+
+  constructor(
+    @Inject(StorageService) private storage: StorageService<ComputerLocalState>,
+    private archive: ArchiveService,
+  ) {
+    // Search off the main thread; fall back to inline search without workers
+    if (typeof Worker !== 'undefined') {
+      this.worker = new Worker(
+        new URL('../../engine/engine.worker', import.meta.url),
+      );
+      this.worker.onmessage = ({ data }: MessageEvent<EngineReply>) =>
+        this.onEngineReply(data);
+    }
+  }
+
+  ngAfterViewInit(): void {
+    // Resume an unfinished (or just finished) game from localStorage
+    const saved = this.storage.load();
+    if (!saved?.role) return;
+    try {
+      this.chess = replayMoves(saved.moves ?? [], saved.startFen);
+    } catch {
+      this.storage.clear();
+      return;
+    }
+    // Defer state changes so they land after this change-detection pass
+    setTimeout(() => {
+      this.role = saved.role;
+      this.level = this.levels[saved.level] ? saved.level : 1;
+      this.startFen = saved.startFen;
+      this.result = saved.result ?? null;
+      this.moves = this.chess.history();
+      this.applyFen(this.chess.fen());
+      this.overlayVisible = !!this.result;
+      this.maybeEngineMove();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.worker?.terminate();
+    if (this.fallbackTimer) window.clearTimeout(this.fallbackTimer);
+  }
+
+  // Start from the initial position; the engine opens when the human is black
+  newGame(): void {
+    this.cancelSearch();
+    this.role =
+      this.sideChoice === 'random'
+        ? Math.random() < 0.5
+          ? 'white'
+          : 'black'
+        : this.sideChoice;
+    this.chess = new Chess();
+    this.startFen = this.chess.fen();
+    this.result = null;
+    this.moves = [];
+    this.viewPly = null;
+    this.overlayVisible = false;
+    this.applyFen(this.chess.fen());
+    this.persist();
+    this.maybeEngineMove();
+  }
+
+  // Back to the setup panel
+  leaveGame(): void {
+    this.cancelSearch();
+    this.storage.clear();
+    this.role = null;
+    this.result = null;
+    this.moves = [];
+    this.viewPly = null;
+    this.overlayVisible = false;
+    this.chess = new Chess();
+    this.applyFen(this.chess.fen());
+  }
+
+  resign(): void {
+    if (!this.role || this.result) return;
+    this.cancelSearch();
+    this.endGame({ winner: opponentOf(this.role), reason: 'resignation' });
+  }
+
+  // User dropped a piece: validate through chess.js, then hand over to the engine
+  onUserMove(): void {
+    if (this.applyingBoard || this.locked) return;
+    const move = lastBoardMove(this.board);
+    try {
+      if (!move) throw new Error('Unreadable move');
+      playMove(this.chess, move);
+    } catch {
+      this.applyFen(this.chess.fen()); // snap back
+      return;
+    }
+    this.afterMove();
+  }
+
+  onViewPly(ply: number | null): void {
+    this.viewPly = ply;
+    this.applyFen(ply === null ? this.chess.fen() : fenAtPly(this.chess, ply));
+  }
+
+  // Shared tail of human and engine moves
+  private afterMove(): void {
+    this.moves = this.chess.history();
+    const result = detectResult(this.chess);
+    if (result) {
+      this.endGame(result);
+      return;
+    }
+    this.persist();
+    this.maybeEngineMove();
+  }
+
+  // Ask the engine for a move when it's the computer's turn
+  private maybeEngineMove(): void {
+    if (!this.role || this.result) return;
+    if (this.chess.turn() === this.role[0]) return;
+
+    this.thinking = true;
+    const request: EngineRequest = {
+      id: ++this.requestId,
+      startFen: this.startFen,
+      moves: this.chess.history(),
+      level: this.levels[this.level],
+    };
+    if (this.worker) {
+      this.worker.postMessage(request);
+      return;
+    }
+    // Inline fallback: let the UI paint "thinking" before blocking
+    this.fallbackTimer = window.setTimeout(() => {
+      this.fallbackTimer = null;
+      const chess = replayMoves(request.moves, request.startFen);
+      this.onEngineReply({
+        id: request.id,
+        move: searchBestMove(chess, request.level),
+      });
+    }, 50);
+  }
+
+  private onEngineReply(reply: EngineReply): void {
+    if (reply.id !== this.requestId || !this.thinking) return; // stale
+    this.thinking = false;
+    if (!reply.move) return;
+    try {
+      this.chess.move(reply.move);
+    } catch {
+      return; // position moved on; nothing to apply
+    }
+    if (this.viewPly === null) this.applyFen(this.chess.fen());
+    this.afterMove();
+  }
+
+  // Drop any in-flight search; its reply will no longer match requestId
+  private cancelSearch(): void {
+    this.requestId++;
+    this.thinking = false;
+    if (this.fallbackTimer) {
+      window.clearTimeout(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+  }
+
+  private endGame(result: GameResult): void {
+    this.result = result;
+    this.overlayVisible = true;
+    this.persist();
+    void this.archive.add({
+      mode: 'computer',
+      pgn: this.pgn(),
+      result,
+      score: resultScore(result),
+      playedAt: Date.now(),
+      ...this.names(),
+      playerColor: this.role,
+      opponent: this.computerName,
+    });
+  }
+
+  private pgn(): string {
+    return exportPgn(this.chess, {
+      event: 'Computer game',
+      ...this.names(),
+      result: this.result ? resultScore(this.result) : '*',
+      timeControl: null,
+    });
+  }
+
+  private get computerName(): string {
+    return `Computer (${this.levelName})`;
+  }
+
+  // PGN player names from the human's side
+  private names(): { white: string; black: string } {
+    const computer = this.computerName;
+    return this.role === 'black'
+      ? { white: computer, black: 'You' }
+      : { white: 'You', black: computer };
+  }
+
+  private persist(): void {
+    if (!this.role) return;
+    this.storage.save({
+      role: this.role,
+      level: this.level,
+      startFen: this.startFen,
+      moves: this.chess.history(),
+      result: this.result,
+    });
+  }
+
+  // Show a position without treating it as a user move; keeps black flipped
+  private applyFen(fen: string): void {
+    this.applyingBoard = true;
+    try {
+      showPosition(this.board, fen, this.role === 'black');
+    } finally {
+      this.applyingBoard = false;
+    }
+  }
+}
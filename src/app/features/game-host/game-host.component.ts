@@ -3,19 +3,43 @@ import {
   Component,
   ElementRef,
   HostListener,
+  OnDestroy,
   ViewChild,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Chess } from 'chess.js';
+import { FormsModule } from '@angular/forms';
 import { StorageService, STORAGE_KEY } from '../../services/storage.service';
-import { Role, Turn, WireMessage } from '../../types/messages';
-
-type SavedState = { fen: string };
+import { resultScore, resultText } from '../../chess/game-result';
+import { formatClock, remainingMs, timeControlLabel } from '../../chess/clock';
+import { GameCoordinator } from '../../chess/game-coordinator';
+import { fenAtPly } from '../../chess/moves';
+import { importGame, pgnFileName } from '../../chess/pgn';
+import { analysisUrl } from '../../analysis/analysis-link';
+import { migrateSavedGame, SavedGame } from '../../chess/saved-game';
+import { BOARD_EVENT_TYPES, WireEndpoint } from '../../embed/wire-protocol';
+import { ExportService } from '../../services/export.service';
+import { ArchiveService } from '../../services/archive.service';
+import { OpeningService } from '../../services/opening.service';
+import { openingLabel } from '../../openings/eco';
+import { MoveListComponent } from '../../shared/move-list/move-list.component';
+import { TimeControlPickerComponent } from '../../shared/time-control-picker/time-control-picker.component';
+import { VariantPickerComponent } from '../../shared/variant-picker/variant-picker.component';
+import { TimeControl } from '../../types/clock';
+import { GameResult, Role, WireMessage } from '../../types/messages';
+import { Opening } from '../../types/opening';
+import { Variant } from '../../types/variant';
+import { newVariantGame, variantBadge } from '../../variants/variants';
 
 @Component({
   selector: 'app-game-host',
   standalone: true,
-  imports: [CommonModule],
+  imports: [
+    CommonModule,
+    FormsModule,
+    MoveListComponent,
+    TimeControlPickerComponent,
+    VariantPickerComponent,
+  ],
   templateUrl: './game-host.component.html',
   styleUrls: ['./game-host.component.scss'],
   providers: [
@@ -23,114 +47,121 @@ type SavedState = { fen: string };
     { provide: StorageService, useClass: StorageService },
   ],
 })
-export class GameHostComponent implements AfterViewInit {
+export class GameHostComponent implements AfterViewInit, OnDestroy {
   @ViewChild('frame1', { static: true }) frame1!: ElementRef<HTMLIFrameElement>;
   @ViewChild('frame2', { static: true }) frame2!: ElementRef<HTMLIFrameElement>;
+  @ViewChild(MoveListComponent, { static: true }) moveList!: MoveListComponent;
 
-  private chess = new Chess(); // single source of truth for the game
-  currentTurnText = '';
+  // Single source of truth for the game; the iframes are its two boards
+  private game = new GameCoordinator({
+    send: (to, msg) => this.postTo(to, msg),
+    changed: () => this.onGameChanged(),
+    ended: (result) => this.onGameEnded(result),
+  });
   overlayVisible = false;
   overlayText = '';
 
+  // Move list
+  moves: string[] = []; // SAN history of the live game
+  viewPly: number | null = null; // earlier position shown on both boards
+  opening: Opening | null = null; // named from the live game's moves
+
+  // Import / export
+  startText = ''; // optional FEN or PGN to start the next game from
+  importError = '';
+  exportNote = ''; // short confirmation after copying
+
+  // Clocks
+  nextTimeControl: TimeControl | null = null; // picked for the next new game
+  nextVariant: Variant = 'standard';
+  private clockTimer: number | null = null;
+
   private readonly boardSrc = '/embed-board'; // both iframes load same URL
-  private readonly origin = window.location.origin; // same-origin postMessage guard
+  private readonly origin = window.location.origin; // both boards are ours
+  private boards: Record<Role, WireEndpoint> = {
+    white: this.boardEndpoint('white'),
+    black: this.boardEndpoint('black'),
+  };
 
-  constructor(private storage: StorageService<SavedState>) {}
+  constructor(
+    private storage: StorageService<SavedGame>,
+    private exporter: ExportService,
+    private archive: ArchiveService,
+    private openings: OpeningService,
+  ) {}
 
   ngAfterViewInit(): void {
     // Load both boards
     this.frame1.nativeElement.src = this.boardSrc;
     this.frame2.nativeElement.src = this.boardSrc;
 
-    // Restore last unfinished game
-    const saved = this.storage.load();
-    if (saved?.fen) {
-      try {
-        this.chess.load(saved.fen);
-      } catch {}
+    // Restore the last game with its history; older saves are migrated
+    const saved = migrateSavedGame(this.storage.load());
+    if (saved && this.game.restore(saved)) {
+      this.persist(); // rewrite in the current shape
     }
-  }
-
-  // Parent listens for all inter-frame messages
-  @HostListener('window:message', ['$event'])
-  onMessage(event: MessageEvent<WireMessage>) {
-    if (event.origin !== this.origin) return; // security: ignore cross-origin
-    const srcWin = (event.source as Window) ?? null;
-    if (!srcWin) return;
-
-    const data = event.data;
-    if (!data || typeof data !== 'object' || !('type' in data)) return;
-
-    switch (data.type) {
-      case 'IFRAME_READY': {
-        // Assign roles to iframe slot
-        const role: Role = srcWin === this.window1 ? 'white' : 'black';
-        this.postTo(srcWin, { type: 'ROLE_ASSIGN', role }); // tell child its role
-        this.syncStateTo(srcWin); // push current FEN
-        this.broadcastTurn(); // tell both whose turn
-        break;
-      }
+    this.moves = this.game.chess.history();
+    this.opening = this.lookupOpening();
+    if (this.game.result) {
+      this.overlayText = resultText(this.game.result);
+      this.overlayVisible = true;
+    }
+    this.nextTimeControl = this.game.timeControl;
+    this.nextVariant = this.game.variant;
 
-      case 'REQUEST_SYNC': {
-        // Child asked to sync (e.g., on reload)
-        this.syncStateTo(srcWin);
-        this.broadcastTurn();
-        break;
-      }
+    // Time passes while the page is closed, so check flags right away
+    this.clockTimer = window.setInterval(() => this.game.checkFlag(), 100);
+  }
 
-      case 'BOARD_UPDATE': {
-        // Only accept moves from the side to move
-        const isFromCurrentTurn = srcWin === this.currentTurnWindow();
-        if (!isFromCurrentTurn) return;
+  ngOnDestroy(): void {
+    if (this.clockTimer) window.clearInterval(this.clockTimer);
+    this.boards.white.close();
+    this.boards.black.close();
+  }
 
-        // Update state from reported FEN
-        try {
-          this.chess.load(data.fen);
-        } catch {
-          return; // ignore invalid positions
-        }
+  // Parent listens for all inter-frame messages; each board's endpoint
+  // picks out its own iframe's frames
+  @HostListener('window:message', ['$event'])
+  onMessage(event: MessageEvent) {
+    if (!this.boards.white.receive(event)) this.boards.black.receive(event);
+  }
 
-        // Persist latest position for refresh-resume
-        this.storage.save({ fen: data.fen });
-
-        // Checkmate handling
-        if (this.chess.isCheckmate()) {
-          const winner: Role = this.chess.turn() === 'w' ? 'black' : 'white';
-          const msg: WireMessage = {
-            type: 'GAME_OVER',
-            winner,
-            reason: 'checkmate',
-          };
-          this.postToBoth(msg);
-          this.overlayText = `${winner.toUpperCase()} wins by checkmate`;
-          this.overlayVisible = true;
-          return;
-        }
+  get currentTurnText(): string {
+    return this.game.turnText;
+  }
 
-        // Mirror the move into the other iframe
-        this.postTo(this.otherWindow(srcWin), {
-          type: 'SYNC_STATE',
-          fen: data.fen,
-        });
+  get openingText(): string {
+    return this.opening ? openingLabel(this.opening) : '';
+  }
 
-        // Announce next turn to both children
-        this.broadcastTurn();
-        break;
-      }
-    }
+  get variantText(): string {
+    return variantBadge(this.game.variant, this.game.chess);
   }
 
   // Reset to a fresh game and notify both boards
   newGame(): void {
-    this.chess = new Chess();
-    this.storage.clear();
+    // Optional custom start; keep the overlay open to show import errors
+    let start = newVariantGame(this.nextVariant);
+    if (this.startText.trim()) {
+      if (this.nextVariant !== 'standard') {
+        this.importError = 'Custom starts are for standard games only.';
+        return;
+      }
+      const imported = importGame(this.startText);
+      if ('error' in imported) {
+        this.importError = imported.error;
+        return;
+      }
+      start = imported.chess;
+    }
+    this.startText = '';
+    this.importError = '';
+    this.viewPly = null;
     this.overlayVisible = false;
     this.overlayText = '';
 
-    const fen = this.chess.fen();
-    this.postToBoth({ type: 'RESET' });
-    this.postToBoth({ type: 'SYNC_STATE', fen });
-    this.broadcastTurn();
+    // Replaces the finished game's save
+    this.game.start(start, this.nextTimeControl, this.nextVariant);
   }
 
   // Open confirmation overlay
@@ -139,6 +170,54 @@ export class GameHostComponent implements AfterViewInit {
     this.overlayVisible = true;
   }
 
+  // Move list navigation: show an earlier position read-only, or return to live
+  onViewPly(ply: number | null): void {
+    this.viewPly = ply;
+    if (ply === null) {
+      this.game.syncAll();
+      return;
+    }
+    const fen = fenAtPly(this.game.chess, ply);
+    this.postToBoth({ type: 'HISTORY_VIEW', fen, ply });
+  }
+
+  // Export actions
+  async copyPgn(): Promise<void> {
+    const copied = await this.exporter.copyText(this.pgn());
+    if (copied) this.exportNote = 'PGN copied';
+  }
+  async copyFen(): Promise<void> {
+    const copied = await this.exporter.copyText(this.game.chess.fen());
+    if (copied) this.exportNote = 'FEN copied';
+  }
+  downloadPgn(): void {
+    this.exporter.download(pgnFileName(), this.pgn());
+  }
+
+  // The game in the analysis board, at the position shown in the move list
+  openAnalysis(): void {
+    if (!this.canAnalyse) return;
+    window.open(analysisUrl(this.pgn(), this.viewPly), '_blank');
+  }
+
+  // The analysis board only plays standard chess
+  get canAnalyse(): boolean {
+    return this.game.variant === 'standard';
+  }
+
+  // Clock face for one side, or null in untimed games
+  clockText(side: Role): string | null {
+    const clock = this.game.clock;
+    if (!clock) return null;
+    return formatClock(remainingMs(clock, side, Date.now()));
+  }
+  isClockRunning(side: Role): boolean {
+    return this.game.clock?.running === side;
+  }
+  get timeControlText(): string {
+    return timeControlLabel(this.game.timeControl);
+  }
+
   // helpers to map iframe elements to windows
   private get window1(): Window | null {
     return this.frame1?.nativeElement?.contentWindow ?? null;
@@ -146,33 +225,88 @@ export class GameHostComponent implements AfterViewInit {
   private get window2(): Window | null {
     return this.frame2?.nativeElement?.contentWindow ?? null;
   }
-  private otherWindow(src: Window): Window | null {
-    return src === this.window1 ? this.window2 : this.window1;
+  private windowOf(role: Role): Window | null {
+    return role === 'white' ? this.window1 : this.window2;
   }
-  private currentTurnWindow(): Window | null {
-    return this.chess.turn() === 'w' ? this.window1 : this.window2;
+
+  // Roles go by iframe slot: the first board is White
+  private boardEndpoint(role: Role): WireEndpoint {
+    return new WireEndpoint({
+      target: () => this.windowOf(role),
+      targetOrigin: this.origin,
+      allowedOrigins: [this.origin],
+      accepts: BOARD_EVENT_TYPES,
+      onMessage: (msg) => {
+        if (msg.type === 'IFRAME_READY') {
+          this.postTo(role, { type: 'ROLE_ASSIGN', role }); // tell child its role
+        }
+        if (msg.type === 'NAVIGATE') {
+          this.moveList.navigate(msg.key); // focus was inside the board
+          return;
+        }
+        this.game.handle(role, msg);
+      },
+    });
   }
 
   // Post a message to a specific child
-  private postTo(target: Window | null, msg: WireMessage): void {
-    if (target) target.postMessage(msg, this.origin);
+  private postTo(role: Role, msg: WireMessage): void {
+    this.boards[role].post(msg);
   }
 
   // Broadcast to both children
   private postToBoth(msg: WireMessage): void {
-    this.postTo(this.window1, msg);
-    this.postTo(this.window2, msg);
+    this.postTo('white', msg);
+    this.postTo('black', msg);
+  }
+
+  // Save for refresh-resume and refresh the move list; a shorter history
+  // (takeback or new game) also ends any history view
+  private onGameChanged(): void {
+    const moves = this.game.chess.history();
+    if (moves.length < this.moves.length) this.viewPly = null;
+    this.moves = moves;
+    this.opening = this.lookupOpening();
+    this.persist();
+  }
+
+  // Show the result over the boards and keep the game
+  private onGameEnded(result: GameResult): void {
+    this.archiveGame(result);
+    this.overlayText = resultText(result);
+    this.overlayVisible = true;
+  }
+
+  // Keep the finished game; aborted games never really started
+  private archiveGame(result: GameResult): void {
+    if (result.reason === 'aborted') return;
+    void this.archive.add({
+      mode: 'offline',
+      pgn: this.pgn(),
+      result,
+      score: resultScore(result),
+      playedAt: Date.now(),
+      white: this.game.meta.white,
+      black: this.game.meta.black,
+      playerColor: null,
+      opponent: 'Local',
+    });
+  }
+
+  // Opening names only fit games that start from the usual position
+  private lookupOpening(): Opening | null {
+    const { variant } = this.game;
+    if (variant === 'chess960' || variant === 'horde') return null;
+    return this.openings.lookup(this.game.chess);
   }
 
-  // Push current FEN down to a child
-  private syncStateTo(target: Window): void {
-    this.postTo(target, { type: 'SYNC_STATE', fen: this.chess.fen() });
+  // PGN of the live game, named after its opening
+  private pgn(): string {
+    return this.game.pgn(this.opening);
   }
 
-  // Tell children whose turn it is and update host UI text
-  private broadcastTurn(): void {
-    const turn: Turn = this.chess.turn();
-    this.currentTurnText = turn === 'w' ? 'White to move' : 'Black to move';
-    this.postToBoth({ type: 'TURN', turn });
+  // Save everything needed for refresh-resume
+  private persist(): void {
+    this.storage.save(this.game.snapshot());
   }
 }
@@ -0,0 +1,226 @@
+import {
+  Component,
+  ElementRef,
+  HostListener,
+  NgZone,
+  OnDestroy,
+  OnInit,
+  ViewChild,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { StorageService, STORAGE_KEY } from '../../services/storage.service';
+import { resultScore } from '../../chess/game-result';
+import { formatClock, remainingMs, timeControlLabel } from '../../chess/clock';
+import { GameCoordinator } from '../../chess/game-coordinator';
+import { fenAtPly } from '../../chess/moves';
+import { migrateSavedGame, SavedGame } from '../../chess/saved-game';
+import { BOARD_EVENT_TYPES, WireEndpoint } from '../../embed/wire-protocol';
+import { HotseatLink } from '../../hotseat/hotseat-link';
+import { ArchiveService } from '../../services/archive.service';
+import { MoveListComponent } from '../../shared/move-list/move-list.component';
+import { TimeControlPickerComponent } from '../../shared/time-control-picker/time-control-picker.component';
+import { VariantPickerComponent } from '../../shared/variant-picker/variant-picker.component';
+import { TimeControl } from '../../types/clock';
+import { GameResult, Role, WireMessage } from '../../types/messages';
+import { Variant } from '../../types/variant';
+import { variantBadge } from '../../variants/variants';
+
+// Hotseat across browser tabs or windows: each tab shows one board, and the
+// tabs elect one of themselves to keep the game (see HotseatLink)
+@Component({
+  selector: 'app-hotseat',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MoveListComponent,
+    TimeControlPickerComponent,
+    VariantPickerComponent,
+  ],
+  templateUrl: './hotseat.component.html',
+  styleUrls: ['./hotseat.component.scss'],
+  providers: [
+    { provide: STORAGE_KEY, useValue: 'hotseat-game-state' },
+    { provide: StorageService, useClass: StorageService },
+  ],
+})
+export class HotseatComponent implements OnInit, OnDestroy {
+  @ViewChild('frame') frame?: ElementRef<HTMLIFrameElement>;
+  @ViewChild(MoveListComponent) moveList?: MoveListComponent;
+
+  side: Role | null = null; // board shown in this tab
+  moves: string[] = [];
+  viewPly: number | null = null; // earlier position shown on this tab's board
+  nextTimeControl: TimeControl | null = null;
+  nextVariant: Variant = 'standard';
+  newGameOpen = false;
+
+  // Read-only copy of the shared game, for status, clocks and the move list
+  private view = new GameCoordinator({
+    send: () => {},
+    changed: () => {},
+    ended: () => {},
+  });
+  private link: HotseatLink;
+  private readonly origin = window.location.origin; // the board is ours
+  private board = new WireEndpoint({
+    target: () => this.boardWindow,
+    targetOrigin: this.origin,
+    allowedOrigins: [this.origin],
+    accepts: BOARD_EVENT_TYPES,
+    onMessage: (msg) => this.fromBoard(msg),
+  });
+
+  constructor(
+    private storage: StorageService<SavedGame>,
+    private archive: ArchiveService,
+    zone: NgZone,
+  ) {
+    // Run channel callbacks in Angular's zone so the view follows the game
+    this.link = new HotseatLink({
+      board: (msg) => zone.run(() => this.toBoard(msg)),
+      state: (game) => zone.run(() => this.onState(game)),
+      ended: (result, pgn) => zone.run(() => this.archiveGame(result, pgn)),
+    });
+  }
+
+  ngOnInit(): void {
+    const saved = migrateSavedGame(this.storage.load());
+    if (saved) this.onState(saved);
+    this.nextTimeControl = this.view.timeControl;
+    this.nextVariant = this.view.variant;
+
+    // ?side= keeps a reloaded tab on its board
+    const side = new URLSearchParams(window.location.search).get('side');
+    if (side === 'white' || side === 'black') this.side = side;
+    this.link.setSide(this.side);
+    this.link.start(saved);
+  }
+
+  ngOnDestroy(): void {
+    this.link.stop();
+    this.board.close();
+  }
+
+  // Closing or reloading the tab hands hosting over straight away
+  @HostListener('window:pagehide')
+  onPageHide(): void {
+    this.link.stop();
+  }
+
+  @HostListener('window:message', ['$event'])
+  onMessage(event: MessageEvent) {
+    if (this.side) this.board.receive(event);
+  }
+
+  // Take a side in this tab
+  choose(side: Role): void {
+    this.side = side;
+    this.viewPly = null;
+    this.link.setSide(side);
+    history.replaceState(history.state, '', this.sideUrl(side));
+  }
+
+  // Show the other side's board in a new window
+  openOtherSide(): void {
+    const other: Role = this.side === 'white' ? 'black' : 'white';
+    window.open(this.sideUrl(other), '_blank', 'popup');
+  }
+
+  startNewGame(): void {
+    this.newGameOpen = false;
+    this.viewPly = null;
+    this.link.newGame(this.nextTimeControl, this.nextVariant);
+  }
+
+  // Move list navigation on this tab's board only
+  onViewPly(ply: number | null): void {
+    this.viewPly = ply;
+    if (ply === null) {
+      this.link.fromBoard({ type: 'REQUEST_SYNC' });
+      return;
+    }
+    const fen = fenAtPly(this.view.chess, ply);
+    this.postToBoard({ type: 'HISTORY_VIEW', fen, ply });
+  }
+
+  get statusText(): string {
+    return this.view.turnText;
+  }
+  get result(): GameResult | null {
+    return this.view.result;
+  }
+  get isHost(): boolean {
+    return this.link.isHost;
+  }
+  get tabCount(): number {
+    return this.link.tabCount;
+  }
+
+  // Clock face for one side, or null in untimed games
+  clockText(side: Role): string | null {
+    const clock = this.view.clock;
+    if (!clock) return null;
+    return formatClock(remainingMs(clock, side, Date.now()));
+  }
+  isClockRunning(side: Role): boolean {
+    return this.view.clock?.running === side;
+  }
+  get timeControlText(): string {
+    return timeControlLabel(this.view.timeControl);
+  }
+  get variantText(): string {
+    return variantBadge(this.view.variant, this.view.chess);
+  }
+
+  private onState(game: SavedGame): void {
+    if (!this.view.restore(game)) return;
+    this.moves = this.view.chess.history();
+    this.storage.save(game); // lets the next tab resume if all are closed
+  }
+
+  private toBoard(msg: WireMessage): void {
+    if (msg.type === 'SYNC_STATE' || msg.type === 'RESET') this.viewPly = null;
+    this.postToBoard(msg);
+  }
+
+  // Only the hosting tab archives, so a game is kept once
+  private archiveGame(result: GameResult, pgn: string): void {
+    if (result.reason === 'aborted') return;
+    void this.archive.add({
+      mode: 'offline',
+      pgn,
+      result,
+      score: resultScore(result),
+      playedAt: Date.now(),
+      white: this.view.meta.white,
+      black: this.view.meta.black,
+      playerColor: null,
+      opponent: 'Local',
+    });
+  }
+
+  // Messages from this tab's board go to whichever tab hosts the game
+  private fromBoard(msg: WireMessage): void {
+    if (!this.side) return;
+    if (msg.type === 'IFRAME_READY') {
+      this.postToBoard({ type: 'ROLE_ASSIGN', role: this.side });
+    }
+    if (msg.type === 'NAVIGATE') {
+      this.moveList?.navigate(msg.key); // focus was inside the board
+      return;
+    }
+    this.link.fromBoard(msg);
+  }
+
+  private get boardWindow(): Window | null {
+    return this.frame?.nativeElement?.contentWindow ?? null;
+  }
+
+  private postToBoard(msg: WireMessage): void {
+    this.board.post(msg);
+  }
+
+  private sideUrl(side: Role): string {
+    return `${window.location.pathname}?side=${side}`;
+  }
+}
@@ -0,0 +1,31 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { LobbyComponent } from './lobby.component';
+import { GAME_TRANSPORT } from '../../online/game-transport';
+import { LocalGameTransport } from '../../online/local-game-transport';
+
+describe('LobbyComponent', () => {
+  let component: LobbyComponent;
+  let fixture: ComponentFixture<LobbyComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [LobbyComponent],
+      providers: [
+        {
+          provide: GAME_TRANSPORT,
+          useValue: new LocalGameTransport(`test-${Math.random()}`),
+        },
+      ],
+    });
+    fixture = TestBed.createComponent(LobbyComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => fixture.destroy());
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,301 @@
+import { Component, Inject, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { Chess } from 'chess.js';
+import { StorageService, STORAGE_KEY } from '../../services/storage.service';
+import { ProfileService } from '../../services/profile.service';
+import { createClock, timeControlLabel } from '../../chess/clock';
+import { startFenOf } from '../../chess/pgn';
+import {
+  findPairing,
+  LobbyHandoff,
+  newClientId,
+  newGameCode,
+  OpenSeek,
+  openSeeks,
+  seatFor,
+  SeekWish,
+  staleSeekCodes,
+} from '../../online/lobby';
+import {
+  GAME_TRANSPORT,
+  GameTransport,
+  Unsubscribe,
+} from '../../online/game-transport';
+import { TimeControlPickerComponent } from '../../shared/time-control-picker/time-control-picker.component';
+import { TimeControl } from '../../types/clock';
+import { Role } from '../../types/messages';
+import { GameDoc, PresenceDoc, SeekColor } from '../../types/online';
+
+// Remembered between visits; the name lives in the player's profile
+interface LobbyPrefs {
+  timeControl: TimeControl | null;
+  color: SeekColor;
+  name?: string; // only in prefs saved before profiles existed
+}
+
+const STALE_CHECK_MS = 15_000; // seeks go stale with time, not only on writes
+
+@Component({
+  selector: 'app-lobby',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TimeControlPickerComponent],
+  templateUrl: './lobby.component.html',
+  styleUrls: ['./lobby.component.scss'],
+  providers: [
+    { provide: STORAGE_KEY, useValue: 'lobby-prefs' },
+    { provide: StorageService, useClass: StorageService<LobbyPrefs> },
+  ],
+})
+export class LobbyComponent implements OnDestroy {
+  // Seek settings
+  name = '';
+  timeControl: TimeControl | null = null;
+  color: SeekColor = 'random';
+  readonly colors: { value: SeekColor; label: string }[] = [
+    { value: 'random', label: 'Random' },
+    { value: 'white', label: 'White' },
+    { value: 'black', label: 'Black' },
+  ];
+
+  // Open seeks, and ours while it waits for an opponent
+  seeks: OpenSeek[] = [];
+  mySeek: { code: string; role: Role; quick: boolean } | null = null;
+  statusText = '';
+  busy = false; // a create or join is in flight
+
+  private readonly clientId = newClientId(); // handed on to the game
+  private games: Record<string, GameDoc> = {};
+  private dropping = new Set<string>(); // stale seeks being deleted
+  private serverOffset = 0;
+  private handingOff = false;
+  private unsubWaiting: Unsubscribe;
+  private unsubOffset: Unsubscribe;
+  private unsubConnected: Unsubscribe;
+  private unsubMine: Unsubscribe | null = null;
+  private staleTimer: number;
+
+  constructor(
+    @Inject(StorageService) private storage: StorageService<LobbyPrefs>,
+    @Inject(GAME_TRANSPORT) private transport: GameTransport,
+    private router: Router,
+    private profiles: ProfileService,
+  ) {
+    const prefs = this.storage.load();
+    // Carry over the name typed here before it moved into the profile
+    const { name, avatar } = this.profiles.profile;
+    if (!name && prefs?.name) this.profiles.rename(prefs.name, avatar);
+    this.name = this.profiles.profile.name;
+    if (prefs) {
+      this.timeControl = prefs.timeControl;
+      this.color = prefs.color;
+    }
+
+    this.unsubOffset = this.transport.onServerOffset((offset) => {
+      this.serverOffset = offset;
+    });
+    this.unsubWaiting = this.transport.subscribeWaiting((games) => {
+      this.games = games;
+      this.refresh();
+    });
+    // Reconnecting restores the presence that keeps our seek alive
+    this.unsubConnected = this.transport.onConnected((connected) => {
+      if (connected && this.mySeek) void this.announce(this.mySeek).catch(() => {});
+    });
+    this.staleTimer = window.setInterval(() => this.refresh(), STALE_CHECK_MS);
+  }
+
+  ngOnDestroy(): void {
+    this.unsubWaiting();
+    this.unsubOffset();
+    this.unsubConnected();
+    this.unsubMine?.();
+    window.clearInterval(this.staleTimer);
+    // Leaving withdraws our seek; if that fails it goes stale with this tab
+    if (!this.handingOff) void this.cancelSeek().catch(() => {});
+  }
+
+  get wish(): SeekWish {
+    return { timeControl: this.timeControl, color: this.color };
+  }
+
+  isMine(seek: OpenSeek): boolean {
+    return seek.hostId === this.clientId;
+  }
+
+  // "3+2 · plays White · rated"
+  seekText(seek: OpenSeek): string {
+    const color =
+      seek.seek.color === 'random'
+        ? 'random colour'
+        : `plays ${seek.seek.color === 'white' ? 'White' : 'Black'}`;
+    const rated = seek.rated ? 'rated' : 'casual';
+    return `${timeControlLabel(seek.timeControl)} · ${color} · ${rated}`;
+  }
+
+  // List a new seek and wait here for someone to take it
+  async createSeek(quick = false): Promise<void> {
+    if (this.mySeek || this.busy) return;
+    this.busy = true;
+    this.savePrefs();
+
+    const code = newGameCode();
+    const role = seatFor(this.color);
+    const start = new Chess();
+    try {
+      await this.transport.create(code, {
+        fen: start.fen(),
+        pgn: start.pgn(),
+        startFen: startFenOf(start),
+        moves: [],
+        turn: start.turn(),
+        status: 'waiting',
+        players: { [role]: { id: this.clientId, ...this.profiles.seat } },
+        timeControl: this.timeControl,
+        clock: this.timeControl ? createClock(this.timeControl) : null,
+        allowSpectators: true,
+        rated: true, // lobby games always count
+        seek: {
+          name: this.displayName(),
+          color: this.color,
+          createdAt: this.transport.serverTimestamp(),
+          ...(quick ? { quick } : {}),
+        },
+      });
+      this.mySeek = { code, role, quick };
+      await this.announce(this.mySeek);
+    } catch {
+      this.statusText = 'Could not create the seek. Try again.';
+      this.busy = false;
+      return;
+    }
+    this.busy = false;
+    this.statusText = 'Waiting for an opponent…';
+
+    // Someone took the other seat: off to the game
+    this.unsubMine = this.transport.subscribe(code, (game) => {
+      if (!game) {
+        this.forgetSeek();
+        this.statusText = 'Your seek expired.';
+      } else if (game.players?.white?.id && game.players?.black?.id) {
+        this.enterGame(code);
+      }
+    });
+    this.refresh();
+  }
+
+  // Take the other seat of an open seek
+  async join(seek: OpenSeek): Promise<boolean> {
+    if (this.busy || this.isMine(seek)) return false;
+    this.busy = true;
+    this.savePrefs();
+    try {
+      const claim = await this.transport.join(
+        seek.code,
+        this.clientId,
+        this.profiles.seat,
+      );
+      if ('role' in claim) {
+        this.enterGame(seek.code);
+        return true;
+      }
+      this.statusText = 'That seek was just taken.';
+    } catch {
+      this.statusText = 'Could not join that seek. Try again.';
+    } finally {
+      this.busy = false;
+    }
+    return false;
+  }
+
+  // Join the oldest compatible seek, or list one for the next player
+  async quickPair(): Promise<void> {
+    if (this.mySeek || this.busy) return;
+    const match = findPairing(this.seeks, this.wish, this.clientId);
+    if (match && (await this.join(match))) return;
+    await this.createSeek(true);
+  }
+
+  async cancelSeek(): Promise<void> {
+    const seek = this.mySeek;
+    if (!seek) return;
+    this.forgetSeek();
+    this.statusText = '';
+    const key = `presence/${seek.role}`;
+    await this.transport.detachPresence(seek.code, key, null);
+    await this.transport.cancelSeek(seek.code, this.clientId);
+  }
+
+  // Rebuild the list, clear out stale seeks, and let a waiting quick seek
+  // give way to an older matching one so two quick pairers meet
+  private refresh(): void {
+    const now = Date.now() + this.serverOffset;
+    this.seeks = openSeeks(this.games, now);
+
+    for (const code of staleSeekCodes(this.games, now)) {
+      if (this.dropping.has(code)) continue;
+      this.dropping.add(code);
+      void this.transport
+        .dropStaleSeek(code, now)
+        .catch(() => {}) // retried on the next refresh
+        .finally(() => this.dropping.delete(code));
+    }
+
+    const mine = this.seeks.find((s) => s.code === this.mySeek?.code);
+    if (!this.mySeek?.quick || !mine || this.busy) return;
+    const older = this.seeks.slice(0, this.seeks.indexOf(mine));
+    const match = findPairing(
+      older.filter((s) => s.seek.quick),
+      this.wish,
+      this.clientId,
+    );
+    if (match) void this.switchTo(match).catch(() => {});
+  }
+
+  private async switchTo(match: OpenSeek): Promise<void> {
+    await this.cancelSeek();
+    if (!(await this.join(match))) await this.createSeek(true);
+  }
+
+  // The creator's presence marks the seek stale once they drop
+  private async announce(seek: { code: string; role: Role }): Promise<void> {
+    await this.transport.attachPresence(
+      seek.code,
+      `presence/${seek.role}`,
+      this.presenceStamp(true),
+      this.presenceStamp(false),
+    );
+  }
+
+  private presenceStamp(online: boolean): PresenceDoc {
+    return { online, lastSeen: this.transport.serverTimestamp() };
+  }
+
+  private forgetSeek(): void {
+    this.unsubMine?.();
+    this.unsubMine = null;
+    this.mySeek = null;
+  }
+
+  // The online page takes over with the seat this tab now holds
+  private enterGame(code: string): void {
+    this.handingOff = true;
+    this.forgetSeek();
+    const state: LobbyHandoff = { code, clientId: this.clientId };
+    void this.router.navigate(['/game/online'], { state });
+  }
+
+  private displayName(): string {
+    return this.profiles.profile.name || 'Anonymous';
+  }
+
+  private savePrefs(): void {
+    const { avatar } = this.profiles.profile;
+    this.profiles.rename(this.name, avatar);
+    this.storage.save({
+      timeControl: this.timeControl,
+      color: this.color,
+    });
+  }
+}
@@ -1,21 +1,249 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
 
 import { OnlineGameComponent } from './online-game.component';
+import { GAME_TRANSPORT } from '../../online/game-transport';
+import { LocalGameTransport } from '../../online/local-game-transport';
+import { ArchiveService } from '../../services/archive.service';
+import { ProfileService } from '../../services/profile.service';
+
+// Let the transport's deliveries and the clock timer run
+function settle(ms = 50): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// The game doc fields after playing `moves` from the start
+function position(moves: string[]) {
+  const chess = new Chess();
+  for (const san of moves) chess.move(san);
+  return {
+    fen: chess.fen(),
+    pgn: chess.pgn(),
+    moves: chess.history(),
+    turn: chess.turn(),
+  };
+}
 
 describe('OnlineGameComponent', () => {
   let component: OnlineGameComponent;
   let fixture: ComponentFixture<OnlineGameComponent>;
+  let transport: LocalGameTransport;
 
   beforeEach(() => {
+    localStorage.removeItem('online-game-state'); // no session to resume
+    transport = new LocalGameTransport(`test-${Math.random()}`);
     TestBed.configureTestingModule({
-      imports: [OnlineGameComponent]
+      imports: [OnlineGameComponent],
+      providers: [{ provide: GAME_TRANSPORT, useValue: transport }],
     });
     fixture = TestBed.createComponent(OnlineGameComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
   });
 
+  afterEach(() => fixture.destroy());
+
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('creates a game with the host seated as white', async () => {
+    await component.createGame();
+
+    const game = await transport.fetch(component.code);
+    expect(component.role).toBe('white');
+    expect(game?.players?.white?.id).toBeTruthy();
+    expect(game?.status).toBe('waiting');
+  });
+
+  it('joins a waiting game in the free seat', async () => {
+    await transport.create('JOIN01', {
+      fen: DEFAULT_POSITION,
+      turn: 'w',
+      status: 'waiting',
+      players: { white: { id: 'host' }, black: null },
+    });
+    component.code = 'JOIN01';
+
+    await component.joinGame();
+
+    const game = await transport.fetch('JOIN01');
+    expect(component.role).toBe('black');
+    expect(game?.players?.black?.id).toBeTruthy();
+    expect(game?.status).toBe('live');
+  });
+
+  it('reports a game that could not be created', async () => {
+    spyOn(transport, 'create').and.rejectWith(new Error());
+
+    await component.createGame();
+
+    expect(component.statusText).toBe('Could not create the game. Try again.');
+    expect(component.inGame).toBeFalse();
+    expect(localStorage.getItem('online-game-state')).toBeNull();
+  });
+
+  it('reports a chat message that did not send', async () => {
+    await component.createGame();
+    spyOn(transport, 'addMessage').and.rejectWith(new Error());
+
+    await component.sendChat('good luck');
+
+    expect(component.chatNotice).toBe(
+      'Could not send that message. Try again.',
+    );
+  });
+
+  it('records a win on time in the tab that called the flag', async () => {
+    const add = spyOn(TestBed.inject(ArchiveService), 'add').and.resolveTo();
+    const profiles = TestBed.inject(ProfileService);
+    const wins = profiles.profile.record.wins;
+
+    component.timeControl = { initial: 60, increment: 0 };
+    await component.createGame();
+    await transport.join(component.code, 'guest');
+    // Black's time ran out a few seconds ago
+    await transport.update(component.code, {
+      clock: {
+        white: 60_000,
+        black: 1000,
+        running: 'black',
+        since: Date.now() - 5000,
+      },
+    });
+    await settle(400);
+
+    const game = await transport.fetch(component.code);
+    expect(game?.reason).toBe('timeout');
+    expect(game?.winner).toBe('white');
+    expect(add).toHaveBeenCalledTimes(1);
+    expect(profiles.profile.record.wins).toBe(wins + 1);
+  });
+
+  describe('rematch', () => {
+    let first: string;
+
+    // A finished game whose loser (the guest, as black) wants another
+    beforeEach(async () => {
+      await component.createGame();
+      first = component.code;
+      await transport.join(first, 'guest');
+      await transport.endGame(first, {
+        winner: 'white',
+        reason: 'resignation',
+        result: '1-0',
+      });
+      await transport.update(first, { rematchOffer: 'black' });
+      await settle();
+    });
+
+    it('moves the host into the next game with colours swapped', async () => {
+      await component.answerRematch(true);
+      await settle();
+
+      const next = await transport.fetch(component.code);
+      expect(component.code).not.toBe(first);
+      expect(component.role).toBe('black');
+      expect(next?.players?.white?.id).toBe('guest');
+    });
+
+    it('stays on the finished game when the rematch fails, and can retry', async () => {
+      const create = spyOn(transport, 'create').and.rejectWith(new Error());
+
+      await component.answerRematch(true);
+      expect(component.code).toBe(first);
+      expect(component.statusText).toBe(
+        'Could not start the rematch. Try again.',
+      );
+
+      create.and.callThrough();
+      await component.answerRematch(true);
+      await settle();
+      expect(component.code).not.toBe(first);
+    });
+  });
+
+  // The host plays white against a guest driven through the transport
+  describe('playing', () => {
+    beforeEach(async () => {
+      await component.createGame();
+      await transport.join(component.code, 'guest');
+      await settle();
+    });
+
+    it('sends my move and shows the reply', async () => {
+      component.board.move('e2e4');
+      await settle();
+      expect((await transport.fetch(component.code))?.moves).toEqual(['e4']);
+
+      await transport.submitMove(
+        component.code,
+        { role: 'black', clientId: 'guest', ply: 1 },
+        position(['e4', 'e5']),
+      );
+      await settle();
+      expect(component.moves).toEqual(['e4', 'e5']);
+    });
+
+    it('resigns, handing the game to the opponent', async () => {
+      await component.resign();
+      await settle();
+
+      const game = await transport.fetch(component.code);
+      expect(game?.reason).toBe('resignation');
+      expect(game?.winner).toBe('black');
+      expect(component.gameOver).toBeTrue();
+    });
+
+    it("agrees to the opponent's draw offer", async () => {
+      await transport.update(component.code, { drawOffer: 'black' });
+      await settle();
+
+      await component.answerDraw(true);
+      await settle();
+
+      const game = await transport.fetch(component.code);
+      expect(game?.reason).toBe('agreement');
+      expect(game?.winner).toBeUndefined();
+      expect(component.gameOver).toBeTrue();
+    });
+
+    it("undoes the opponent's move when I accept a takeback", async () => {
+      await transport.update(component.code, {
+        ...position(['e4', 'e5']),
+        takebackRequest: 'black',
+      });
+      await settle();
+
+      await component.answerTakeback(true);
+      await settle();
+
+      const game = await transport.fetch(component.code);
+      expect(game?.moves).toEqual(['e4']);
+      expect(game?.takebackRequest).toBeFalsy();
+      expect(component.moves).toEqual(['e4']);
+    });
+
+    it('undoes nothing when a move lands before the takeback', async () => {
+      await transport.update(component.code, {
+        ...position(['e4', 'e5']),
+        takebackRequest: 'black',
+      });
+      await settle();
+      // A move from another tab lands while this one is accepting
+      const takeBack = transport.takeBack.bind(transport);
+      spyOn(transport, 'takeBack').and.callFake(async (...args) => {
+        await transport.update(component.code, position(['e4', 'e5', 'Nf3']));
+        return takeBack(...args);
+      });
+
+      await component.answerTakeback(true);
+
+      const game = await transport.fetch(component.code);
+      expect(game?.moves).toEqual(['e4', 'e5', 'Nf3']);
+      expect(component.statusText).toBe(
+        'The game moved on before the takeback; nothing was undone.',
+      );
+    });
+  });
 });
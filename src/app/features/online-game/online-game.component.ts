@@ -1,47 +1,121 @@
-import { Component, ViewChild, OnDestroy, Inject } from '@angular/core';
+import {
+  AfterViewInit,
+  Component,
+  ViewChild,
+  OnDestroy,
+  Inject,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
 import { NgxChessBoardModule, NgxChessBoardView } from 'ngx-chess-board';
-import { Chess } from 'chess.js';
-import { initializeApp } from 'firebase/app';
-import {
-  getDatabase,
-  ref,
-  onValue,
-  set,
-  update,
-  get,
-  Unsubscribe,
-} from 'firebase/database';
+import { Chess, DEFAULT_POSITION, Move } from 'chess.js';
 import { environment } from '../../../environments/environment';
 import { StorageService, STORAGE_KEY } from '../../services/storage.service';
-
-type Turn = 'w' | 'b';
-type Role = 'white' | 'black';
-
-interface PlayersDoc {
-  white?: { id: string } | null;
-  black?: { id: string } | null;
-}
-interface GameDoc {
-  fen: string;
-  pgn?: string;
-  turn: Turn;
-  status?: 'waiting' | 'live' | 'ended';
-  winner?: Role;
-  players?: PlayersDoc;
-}
+import {
+  fenAtPly,
+  lastBoardMove,
+  orientBoard,
+  playMove,
+  replayMoves,
+  routePromotionDialog,
+  showPosition,
+  takebackPlies,
+} from '../../chess/moves';
+import {
+  exportPgn,
+  importGame,
+  pgnFileName,
+  startFenOf,
+} from '../../chess/pgn';
+import { analysisUrl } from '../../analysis/analysis-link';
+import { ExportService } from '../../services/export.service';
+import { ArchiveService } from '../../services/archive.service';
+import { OpeningService } from '../../services/opening.service';
+import { ProfileService } from '../../services/profile.service';
+import { openingLabel } from '../../openings/eco';
+import {
+  ABORT_PLY_LIMIT,
+  detectResult,
+  opponentOf,
+  resultScore,
+  resultText,
+  timeoutResult,
+} from '../../chess/game-result';
+import {
+  createClock,
+  flaggedSide,
+  handClockTo,
+  formatClock,
+  pressClock,
+  remainingMs,
+  stopClock,
+  timeControlLabel,
+} from '../../chess/clock';
+import { ChatPanelComponent } from '../../shared/chat-panel/chat-panel.component';
+import { MoveListComponent } from '../../shared/move-list/move-list.component';
+import { PromotionPickerComponent } from '../../shared/promotion-picker/promotion-picker.component';
+import { TimeControlPickerComponent } from '../../shared/time-control-picker/time-control-picker.component';
+import { VariantPickerComponent } from '../../shared/variant-picker/variant-picker.component';
+import { ClockState, TimeControl } from '../../types/clock';
+import {
+  GameResult,
+  MoveInput,
+  Promotion,
+  Role,
+  Turn,
+} from '../../types/messages';
+import { Opening } from '../../types/opening';
+import { Variant } from '../../types/variant';
+import { castleMoves, newVariantGame, variantBadge } from '../../variants/variants';
+import {
+  ChatMessage,
+  GameDoc,
+  OnlineClock,
+  PlayersDoc,
+  PlayerSeat,
+  PresenceDoc,
+  SeriesDoc,
+} from '../../types/online';
+import {
+  GAME_TRANSPORT,
+  GameTransport,
+  Unsubscribe,
+} from '../../online/game-transport';
+import { SeatClaim } from '../../online/game-transactions';
+import { chatCooldownMs, chatLog, cleanChatText } from '../../online/chat';
+import { serverMs, settledClock } from '../../online/server-time';
+import {
+  formatPoints,
+  rematchGame,
+  seriesScore,
+} from '../../online/rematch';
+import {
+  LobbyHandoff,
+  newClientId,
+  newGameCode,
+} from '../../online/lobby';
+import { opponentSeat, seatName } from '../../profile/player-profile';
 
 interface OnlineLocalState {
   code: string; // game code (room id)
-  role: Role; // my assigned side
+  role: Role | 'spectator'; // my assigned side, or watching
   clientId: string; // tab identity
 }
 
 @Component({
   selector: 'app-online-game',
   standalone: true,
-  imports: [CommonModule, FormsModule, NgxChessBoardModule],
+  imports: [
+    CommonModule,
+    FormsModule,
+    NgxChessBoardModule,
+    MoveListComponent,
+    TimeControlPickerComponent,
+    VariantPickerComponent,
+    ChatPanelComponent,
+    PromotionPickerComponent,
+  ],
   templateUrl: './online-game.component.html',
   styleUrls: ['./online-game.component.scss'],
   providers: [
@@ -49,7 +123,7 @@ interface OnlineLocalState {
     { provide: StorageService, useClass: StorageService<OnlineLocalState> },
   ],
 })
-export class OnlineGameComponent implements OnDestroy {
+export class OnlineGameComponent implements AfterViewInit, OnDestroy {
   @ViewChild('board', { static: true }) board!: NgxChessBoardView;
 
   // UI state
@@ -59,130 +133,320 @@ export class OnlineGameComponent implements OnDestroy {
   overlayText = '';
   copied = false;
   private copyTimer: number | null = null;
+  startText = ''; // optional FEN or PGN to create the game from
+  exportNote = ''; // short confirmation after copying
 
   // Game state
   private chess = new Chess(); // single source of truth for position/turn
   role: Role | null = null; // assigned role on create/join
+  spectating = false; // watching read-only; role stays null
+  allowSpectators = true; // host's lobby choice for new games
+  rated = true; // host's choice; only standard games from the usual start count
+  private gameRated = false; // the current game's setting
+  ratingText = ''; // my rating change, once a rated game ends
+  spectatorCount = 0; // visitors currently watching
+  flipped = false; // spectator's board orientation toggle
   private applyingRemote = false; // true while applying remote updates
-  private bothJoined = false; // both player slots filled
+  bothJoined = false; // both player slots filled
   moveDisabled = true; // disables local drags when not allowed
+  gameOver = false; // result received; actions hidden
+  private result: GameResult | null = null; // final result, for export
+  private recordedResult = false; // counted in my profile and archive
+  drawOffer: Role | null = null; // pending draw offer from either side
+  takebackRequest: Role | null = null; // pending takeback request
+  plyCount = 0; // half-moves played, for the abort window
+  moves: string[] = []; // SAN history for the move list
+  viewPly: number | null = null; // earlier position shown read-only
+  opening: Opening | null = null; // named from the game's moves
+  variant: Variant = 'standard'; // picked in the lobby, then the game's
+  castles: Move[] = []; // Chess960 castles open to me, which can't be dragged
+
+  // Clocks
+  timeControl: TimeControl | null = null; // picked in the lobby, then the game's
+  private clock: ClockState | null = null;
+  private clockTimer: number | null = null;
+  private serverOffset = 0; // server time minus local time, from the backend
+  private unsubOffset: Unsubscribe | null = null;
+
+  // Presence
+  readonly sides: Role[] = ['white', 'black'];
+  private players: PlayersDoc = {};
+  private presence: GameDoc['presence'] = {};
+  private presenceKey: string | null = null; // my entry under presence/
+  private unsubConnected: Unsubscribe | null = null;
+  private readonly abandonTimeoutMs = environment.abandonTimeoutSec * 1000;
+
+  // Rematch
+  rematchOffer: Role | null = null; // side asking for a rematch
+  private series: SeriesDoc | null = null; // score of earlier games in the run
+  private rematchStarting = false; // accepted; creating the next game
+
+  // Chat
+  chat: ChatMessage[] = []; // this game's messages in sending order
+  chatMuted = false; // hides the opponent's messages for this game only
+  chatNotice = ''; // why the last message wasn't sent
+  private chatSentAt: number[] = []; // my recent send times, for rate limiting
+
+  // Answers the board's promotion question; set while the picker is open
+  promotionAnswer: ((piece: Promotion) => void) | null = null;
 
   // Orientation
   private isReversed = false; // track if the board is flipped for black
 
-  // Firebase handles
-  private app = initializeApp(environment.firebase);
-  private db = getDatabase(this.app);
-  private gameRef: ReturnType<typeof ref> | null = null;
+  // Backend subscription
+  private attached = false; // following games/{code}
   private unsub: Unsubscribe | null = null;
+  private spectatorKey: string | null = null; // my entry under spectators/
 
   // Identity
   private clientId = this.ensureClientId();
 
   // Color-based drag disable
   get darkDisabled(): boolean {
-    return this.role === 'white' || this.moveDisabled || this.applyingRemote;
+    return this.role === 'white' || this.locked;
   }
   get lightDisabled(): boolean {
-    return this.role === 'black' || this.moveDisabled || this.applyingRemote;
+    return this.role === 'black' || this.locked;
+  }
+  private get locked(): boolean {
+    return (
+      this.moveDisabled ||
+      this.applyingRemote ||
+      this.viewPly !== null ||
+      !!this.promotionAnswer
+    );
+  }
+
+  // Playing or watching a game
+  get inGame(): boolean {
+    return !!this.role || this.spectating;
+  }
+
+  // Action availability for the in-game bar
+  get canAbort(): boolean {
+    return this.bothJoined && this.plyCount < ABORT_PLY_LIMIT;
+  }
+  get drawOfferedToMe(): boolean {
+    return !!this.drawOffer && this.drawOffer !== this.role;
+  }
+  get takebackRequestedOfMe(): boolean {
+    return !!this.takebackRequest && this.takebackRequest !== this.role;
+  }
+  get canRequestTakeback(): boolean {
+    return !!this.role && takebackPlies(this.chess, this.role) > 0;
+  }
+
+  // Opponent's tab closed or lost its connection while the game is on
+  get opponentAway(): boolean {
+    return this.opponentAwayMs !== null;
+  }
+  get canClaimAbandonment(): boolean {
+    const away = this.opponentAwayMs;
+    return away !== null && away >= this.abandonTimeoutMs;
+  }
+  get claimCountdown(): number {
+    const away = this.opponentAwayMs ?? 0;
+    return Math.max(0, Math.ceil((this.abandonTimeoutMs - away) / 1000));
+  }
+  private get opponentAwayMs(): number | null {
+    if (!this.role || !this.bothJoined || this.gameOver) return null;
+    const seen = this.presence?.[opponentOf(this.role)];
+    if (!seen || seen.online) return null;
+    const now = this.serverNow();
+    return Math.max(0, now - serverMs(seen.lastSeen, now));
+  }
+
+  // Rematch needs the opponent still seated in the finished game
+  get canOfferRematch(): boolean {
+    if (!this.role || !this.gameOver) return false;
+    return !!this.players[opponentOf(this.role)]?.id;
+  }
+  get rematchOfferedToMe(): boolean {
+    return !!this.rematchOffer && this.rematchOffer !== this.role;
+  }
+
+  // Running score across rematches, this game included once it has ended
+  get seriesText(): string | null {
+    if (!this.series) return null;
+    const score = seriesScore(this.series, this.players, this.result);
+    const white = formatPoints(score.white);
+    const black = formatPoints(score.black);
+    if (!this.role) return `Series: White ${white} – ${black} Black`;
+    const [mine, theirs] = this.role === 'white' ? [white, black] : [black, white];
+    return `Series: you ${mine} – ${theirs} opponent`;
+  }
+
+  get openingText(): string {
+    return this.opening ? openingLabel(this.opening) : '';
+  }
+
+  // Badge for anything but standard chess, with the checks so far in Three-check
+  get variantText(): string {
+    return this.inGame ? variantBadge(this.variant, this.chess) : '';
   }
 
   constructor(
     @Inject(StorageService) private storage: StorageService<OnlineLocalState>,
+    private exporter: ExportService,
+    private archive: ArchiveService,
+    private openings: OpeningService,
+    private profiles: ProfileService,
+    @Inject(GAME_TRANSPORT) private transport: GameTransport,
+    private router: Router,
   ) {
-    // Try resuming an unfinished online session from localStorage
+    // Clocks run on server time so both clients agree despite local skew
+    this.unsubOffset = this.transport.onServerOffset((offset) => {
+      this.serverOffset = offset;
+    });
+
+    // Re-announce presence after every reconnect; the server ran onDisconnect
+    this.unsubConnected = this.transport.onConnected((connected) => {
+      if (connected) void this.announcePresence().catch(() => {});
+    });
+    this.clockTimer = window.setInterval(() => void this.checkFlag(), 100);
+
+    // Sent here from the lobby with a seat already held; otherwise try
+    // resuming an unfinished online session from localStorage
+    const handoff = this.router.getCurrentNavigation()?.extras.state as
+      | LobbyHandoff
+      | undefined;
     const saved = this.storage.load();
-    if (saved?.code && saved?.role && saved?.clientId) {
+    if (handoff?.code && handoff.clientId) {
+      this.clientId = handoff.clientId;
+      this.code = handoff.code;
+      void this.joinGame();
+    } else if (saved?.code && saved?.role && saved?.clientId) {
       this.clientId = saved.clientId;
-      this.role = saved.role;
       this.code = saved.code;
-      this.attachToGame(saved.code, true);
+      if (saved.role === 'spectator') {
+        void this.watchGame();
+      } else {
+        this.role = saved.role;
+        this.attachToGame(saved.code, true);
+      }
     }
   }
 
+  ngAfterViewInit(): void {
+    // Our picker replaces the board's own promotion dialog
+    routePromotionDialog(this.board, (answer) => (this.promotionAnswer = answer));
+  }
+
   ngOnDestroy(): void {
-    if (this.unsub) this.unsub(); // stop RTDB listener
+    if (this.unsub) this.unsub(); // stop game listener
+    if (this.unsubOffset) this.unsubOffset();
+    if (this.unsubConnected) this.unsubConnected();
+    // Navigating away counts as gone; onDisconnect covers a failed write
+    void this.withdrawPresence(true).catch(() => {});
+    if (this.clockTimer) window.clearInterval(this.clockTimer);
   }
 
   // Host creates a room as White, writes initial game doc, waits for opponent
   async createGame(): Promise<void> {
-    if (this.role) return; // already in a game
+    if (this.inGame) return; // already in a game
+
+    // Optional custom start position or game to continue
+    let start = newVariantGame(this.variant);
+    if (this.startText.trim()) {
+      if (this.variant !== 'standard') {
+        this.statusText = 'Custom starts are for standard games only.';
+        return;
+      }
+      const imported = importGame(this.startText);
+      if ('error' in imported) {
+        this.statusText = imported.error;
+        return;
+      }
+      start = imported.chess;
+    }
+
     this.role = 'white';
-    this.code = this.makeCode();
+    this.code = newGameCode();
     this.storage.save({
       code: this.code,
       role: this.role,
       clientId: this.clientId,
     });
 
-    this.chess = new Chess(); // fresh start
-    this.gameRef = ref(this.db, `games/${this.code}`);
+    this.chess = start; // fresh or imported start
+    this.attached = true;
 
     const fen = this.chess.fen();
     const pgn = this.chess.pgn();
 
-    await set(this.gameRef, <GameDoc>{
-      fen,
-      pgn,
-      turn: 'w',
-      status: 'waiting',
-      players: { white: { id: this.clientId }, black: null }, // reserve white slot
-    });
+    try {
+      await this.transport.create(this.code, {
+        fen,
+        pgn,
+        startFen: startFenOf(this.chess),
+        moves: this.chess.history(),
+        turn: this.chess.turn(),
+        status: 'waiting',
+        players: {
+          white: { id: this.clientId, ...this.profiles.seat }, // reserve white slot
+          black: null,
+        },
+        timeControl: this.timeControl,
+        clock: this.timeControl ? createClock(this.timeControl) : null,
+        allowSpectators: this.allowSpectators,
+        rated:
+          this.rated &&
+          this.variant === 'standard' &&
+          this.chess.fen() === DEFAULT_POSITION,
+        variant: this.variant,
+      });
+    } catch {
+      this.resetLocalUI(); // the custom start stays in its box for a retry
+      this.statusText = 'Could not create the game. Try again.';
+      return;
+    }
+    this.startText = '';
 
     this.listenForUpdates(); // start realtime sync
+    void this.announcePresence().catch(() => {});
     this.statusText = `Game code: ${this.code} — share it with your friend`;
     this.moveDisabled = true; // block until both joined
     this.isReversed = false; // reset visual state
     this.orientForRole(); // white: no flip
   }
 
+  // Look for an opponent among open seeks instead of sharing a code
+  openLobby(): void {
+    void this.router.navigate(['/game/lobby']);
+  }
+
   // Guest joins an existing room, claims an open slot, starts listening
   async joinGame(): Promise<void> {
-    if (this.role) return;
+    if (this.inGame) return;
     if (!this.code) {
       this.statusText = 'Enter a game code first.';
       return;
     }
 
-    this.gameRef = ref(this.db, `games/${this.code}`);
-    const snap = await get(this.gameRef);
-    if (!snap.exists()) {
-      this.statusText = 'Game not found.';
-      this.gameRef = null;
-      return;
-    }
-
-    const val = snap.val() as GameDoc;
-    const players = val.players || {};
-    const whiteTaken = !!players.white?.id;
-    const blackTaken = !!players.black?.id;
-
-    // Enforce 2-player limit
-    if (whiteTaken && blackTaken) {
-      this.statusText = 'This game already has two players.';
-      this.gameRef = null;
+    // Claim atomically so two guests can't both take the same seat
+    let claim: SeatClaim;
+    try {
+      claim = await this.transport.join(
+        this.code,
+        this.clientId,
+        this.profiles.seat,
+      );
+    } catch {
+      this.statusText = 'Could not join that game. Try again.';
       return;
     }
-
-    // Prefer black when white is already taken
-    if (whiteTaken && !blackTaken) {
-      this.role = 'black';
-      await update(this.gameRef, {
-        status: 'live',
-        players: { ...players, black: { id: this.clientId } },
-      });
-    } else if (!whiteTaken) {
-      // If white slot is free (host left), allow taking white
-      this.role = 'white';
-      await update(this.gameRef, {
-        status: 'waiting',
-        players: { ...players, white: { id: this.clientId } },
-      });
-    } else {
-      this.statusText = 'Unable to join right now.';
-      this.gameRef = null;
+    if ('error' in claim) {
+      if (claim.error === 'not-found') {
+        this.statusText = 'Game not found.';
+      } else if (!claim.allowSpectators) {
+        this.statusText = 'This game already has two players.';
+      } else {
+        await this.watchGame(); // both seats taken: watch instead
+      }
       return;
     }
+    this.role = claim.role;
+    this.attached = true;
 
     // Persist session locally for refresh-resume
     this.storage.save({
@@ -192,98 +456,395 @@ export class OnlineGameComponent implements OnDestroy {
     });
 
     this.listenForUpdates();
+    void this.announcePresence().catch(() => {});
     this.statusText = `Joined game: ${this.code}`;
     this.moveDisabled = true; // wait for both joined + my turn
     this.isReversed = false;
     this.orientForRole(); // black flips visually
   }
 
-  // Leave the room: free our slot server-side and reset local UI
-  async leaveGame(): Promise<void> {
-    if (!this.role || !this.gameRef) {
-      this.resetLocalUI();
+  // Follow a game read-only without claiming a seat
+  async watchGame(): Promise<void> {
+    if (this.inGame) return;
+    if (!this.code) {
+      this.statusText = 'Enter a game code first.';
       return;
     }
 
-    const snap = await get(this.gameRef);
-    if (snap.exists()) {
-      const val = snap.val() as GameDoc;
-      const players = val.players || {};
-      if (this.role === 'white' && players.white?.id === this.clientId) {
-        await update(this.gameRef, {
-          players: { ...players, white: null },
-          status: 'waiting',
-        });
-      } else if (this.role === 'black' && players.black?.id === this.clientId) {
-        await update(this.gameRef, {
-          players: { ...players, black: null },
-          status: 'waiting',
-        });
+    try {
+      const game = await this.transport.fetch(this.code);
+      if (!game) {
+        this.statusText = 'Game not found.';
+        this.storage.clear();
+        return;
       }
+      if (game.allowSpectators === false) {
+        this.statusText = 'The host has turned off spectating for this game.';
+        this.storage.clear();
+        return;
+      }
+
+      // Count ourselves while connected; the server drops us if the tab dies
+      this.spectatorKey = `spectators/${this.clientId}`;
+      await this.transport.attachPresence(
+        this.code,
+        this.spectatorKey,
+        true,
+        null,
+      );
+    } catch {
+      this.spectatorKey = null;
+      this.statusText = 'Could not watch that game. Try again.';
+      return;
     }
 
+    this.attached = true;
+    this.spectating = true;
+    this.storage.save({
+      code: this.code,
+      role: 'spectator',
+      clientId: this.clientId,
+    });
+
+    this.listenForUpdates();
+    this.statusText = `Watching game: ${this.code}`;
+    this.moveDisabled = true; // spectators never move
+    this.isReversed = false;
+    this.orientForRole();
+  }
+
+  // Spectator's board flip; players stay facing their own side
+  flipBoard(): void {
+    this.flipped = !this.flipped;
+    this.orientForRole();
+  }
+
+  // Leave the room: free our slot server-side and reset local UI
+  async leaveGame(): Promise<void> {
+    try {
+      if (this.spectatorKey) {
+        await this.transport.detachPresence(this.code, this.spectatorKey, null);
+        this.spectatorKey = null;
+      }
+      if (this.role && this.attached) {
+        await this.withdrawPresence(false);
+        await this.transport.leave(this.code, this.role, this.clientId);
+      }
+    } catch {
+      // Still seated; staying lets the player try again
+      this.statusText = 'Could not leave the game. Try again.';
+      return;
+    }
     this.resetLocalUI();
   }
 
-  // User dragged a piece: trust board FEN, validate, then write to RTDB
+  // User dragged a piece
   async onUserMove(): Promise<void> {
-    if (this.applyingRemote || !this.gameRef || !this.role) return;
+    if (this.applyingRemote) return;
+    await this.playMyMove(lastBoardMove(this.board));
+  }
+
+  // A Chess960 castle, played as the king moving onto its rook
+  async castle(move: Move): Promise<void> {
+    if (this.viewPly !== null) return;
+    await this.playMyMove({ from: move.from, to: move.to });
+  }
+
+  // Replay my move through chess.js, then write it
+  private async playMyMove(move: MoveInput | null): Promise<void> {
+    if (!this.attached || !this.role) return;
     if (!this.bothJoined || this.moveDisabled) return; // only when both present & my turn
 
-    const fenAfter = this.board.getFEN();
+    // A move made after my flag fell loses on time instead
+    const now = this.serverNow();
+    if (this.clock && flaggedSide(this.clock, now) === this.role) {
+      this.applyFen(this.chess.fen());
+      void this.checkFlag();
+      return;
+    }
 
-    // Validate position
+    // Validate the move against the authoritative game
+    const game = this.chess; // the listener swaps in a new game on updates
+    const ply = game.history().length; // position the move is made in
     try {
-      this.chess.load(fenAfter);
+      if (!move) throw new Error('Unreadable move');
+      playMove(this.chess, move);
     } catch {
-      // Revert view to valid state if invalid
-      this.applyingRemote = true;
-      try {
-        this.board.setFEN(this.chess.fen());
-        this.isReversed = false;
-        this.orientForRole();
-      } finally {
-        this.applyingRemote = false;
-      }
+      // Revert view to the last valid position
+      this.applyFen(this.chess.fen());
       return;
     }
 
+    const fenAfter = this.chess.fen();
+    const moves = this.chess.history();
     const pgn = this.chess.pgn();
     const nextTurn: Turn = this.chess.turn(); // side to move after this move
+    const clock = this.stampedClock(this.role);
 
-    // Checkmate: persist winner, freeze boards, show overlay
-    if (this.chess.isCheckmate()) {
-      const winner: Role = nextTurn === 'w' ? 'black' : 'white';
-      await update(this.gameRef, <GameDoc>{
+    // Checkmate or draw ends the game in the same write
+    const result = detectResult(this.chess, this.variant);
+    const ending: Partial<GameDoc> = result
+      ? {
+          status: 'ended',
+          winner: result.winner,
+          reason: result.reason,
+          result: resultScore(result),
+        }
+      : { status: 'live' };
+
+    // Optimistic gating until server echo updates myTurn
+    this.moveDisabled = true;
+    this.castles = [];
+
+    // Only lands on the position the move was made in (no stale overwrites)
+    const written = await this.transport.submitMove(
+      this.code,
+      { role: this.role, clientId: this.clientId, ply },
+      {
         fen: fenAfter,
         pgn,
+        moves,
         turn: nextTurn,
-        status: 'ended',
-        winner,
+        lastMove: move,
+        drawOffer: null,
+        takebackRequest: null,
+        clock,
+        ...ending,
+      },
+    );
+    if (!written.ok) {
+      this.statusText = written.error;
+      if (this.chess === game) game.undo(); // else the listener already synced
+      if (this.viewPly === null) this.applyFen(this.chess.fen());
+      return;
+    }
+    if (result) this.handleGameOver(result); // also clears local storage
+  }
+
+  // The piece goes out with the move, via onUserMove
+  choosePromotion(piece: Promotion): void {
+    const answer = this.promotionAnswer;
+    this.promotionAnswer = null;
+    answer?.(piece);
+  }
+
+  // Changed my mind: put the pawn back
+  cancelPromotion(): void {
+    this.promotionAnswer = null;
+    this.applyFen(this.chess.fen());
+  }
+
+  // Move list navigation: show an earlier position read-only, or return to live
+  onViewPly(ply: number | null): void {
+    this.viewPly = ply;
+    this.applyFen(ply === null ? this.chess.fen() : fenAtPly(this.chess, ply));
+  }
+
+  // Export actions
+  async copyPgn(): Promise<void> {
+    if (await this.exporter.copyText(this.pgn())) this.exportNote = 'PGN copied';
+  }
+  async copyFen(): Promise<void> {
+    const copied = await this.exporter.copyText(this.chess.fen());
+    if (copied) this.exportNote = 'FEN copied';
+  }
+  downloadPgn(): void {
+    this.exporter.download(pgnFileName(), this.pgn());
+  }
+
+  // A new tab, so leaving this page doesn't count as abandoning the game
+  openAnalysis(): void {
+    if (!this.canAnalyse) return;
+    window.open(analysisUrl(this.pgn(), this.viewPly), '_blank');
+  }
+
+  // The analysis board only plays standard chess
+  get canAnalyse(): boolean {
+    return this.variant === 'standard';
+  }
+
+  // Give up the game; the opponent wins
+  async resign(): Promise<void> {
+    if (!this.role || this.gameOver) return;
+    try {
+      await this.writeResult({
+        winner: opponentOf(this.role),
+        reason: 'resignation',
       });
-      this.handleGameOver(winner); // also clears local storage
+    } catch {
+      this.statusText = 'Could not resign. Try again.';
+    }
+  }
+
+  // Cancel the game before both sides have moved
+  async abort(): Promise<void> {
+    if (!this.role || this.gameOver || !this.canAbort) return;
+    try {
+      await this.writeResult({ winner: null, reason: 'aborted' });
+    } catch {
+      this.statusText = 'Could not abort the game. Try again.';
+    }
+  }
+
+  // Propose a draw; the opponent sees it through listenForUpdates
+  async offerDraw(): Promise<void> {
+    if (!this.attached || !this.role || this.gameOver || this.drawOffer) return;
+    try {
+      await this.transport.update(this.code, { drawOffer: this.role });
+    } catch {
+      this.statusText = 'Could not send the draw offer. Try again.';
+    }
+  }
+
+  // Accept or decline the opponent's pending offer
+  async answerDraw(accept: boolean): Promise<void> {
+    if (!this.attached || !this.drawOfferedToMe) return;
+    try {
+      if (accept) {
+        await this.writeResult({ winner: null, reason: 'agreement' });
+      } else {
+        await this.transport.update(this.code, { drawOffer: null });
+      }
+    } catch {
+      this.statusText = 'Could not answer the draw offer. Try again.';
+    }
+  }
+
+  // Ask the opponent to undo my last move
+  async requestTakeback(): Promise<void> {
+    if (!this.attached || !this.role || this.gameOver) return;
+    if (this.takebackRequest || !this.canRequestTakeback) return;
+    try {
+      await this.transport.update(this.code, { takebackRequest: this.role });
+    } catch {
+      this.statusText = 'Could not ask for a takeback. Try again.';
+    }
+  }
+
+  // Accepting undoes the requester's move (and my reply); both boards
+  // resync from the rewritten doc through listenForUpdates
+  async answerTakeback(accept: boolean): Promise<void> {
+    const requester = this.takebackRequest;
+    if (!this.attached || !requester || !this.takebackRequestedOfMe) return;
+    try {
+      if (!accept) {
+        await this.transport.update(this.code, { takebackRequest: null });
+        return;
+      }
+
+      // Undo on a copy; the listener applies the result once it is written
+      const game = replayMoves(
+        this.chess.history(),
+        startFenOf(this.chess),
+        this.variant,
+      );
+      const ply = game.history().length;
+      const plies = takebackPlies(game, requester);
+      for (let i = 0; i < plies; i++) game.undo();
+      const turn: Turn = game.turn();
+      const toMove: Role = turn === 'w' ? 'white' : 'black';
+      const clock = this.clock
+        ? this.stamp(handClockTo(this.clock, toMove, this.serverNow()))
+        : null;
+      // Only lands on the position it was accepted in
+      const undone = await this.transport.takeBack(
+        this.code,
+        { requester, ply },
+        {
+          fen: game.fen(),
+          pgn: game.pgn(),
+          moves: game.history(),
+          turn,
+          drawOffer: null,
+          takebackRequest: null,
+          clock,
+        },
+      );
+      if (!undone) {
+        this.statusText =
+          'The game moved on before the takeback; nothing was undone.';
+      }
+    } catch {
+      this.statusText = 'Could not answer the takeback request. Try again.';
+    }
+  }
+
+  // Ask for another game with colours swapped; answering an offer accepts it
+  async offerRematch(): Promise<void> {
+    if (!this.attached || !this.canOfferRematch) return;
+    if (this.rematchOfferedToMe) return this.answerRematch(true);
+    if (this.rematchOffer) return;
+    try {
+      await this.transport.update(this.code, { rematchOffer: this.role });
+    } catch {
+      this.statusText = 'Could not offer a rematch. Try again.';
+    }
+  }
+
+  // Accepting creates the linked game; both clients move there from the
+  // finished game's rematchCode in listenForUpdates
+  async answerRematch(accept: boolean): Promise<void> {
+    if (!this.attached || !this.rematchOfferedToMe || this.rematchStarting) {
+      return;
+    }
+    if (!accept) {
+      try {
+        await this.transport.update(this.code, { rematchOffer: null });
+      } catch {
+        this.statusText = 'Could not decline the rematch. Try again.';
+      }
       return;
     }
 
-    // Normal move: write new state
-    await update(this.gameRef, <GameDoc>{
-      fen: fenAfter,
-      pgn,
-      turn: nextTurn,
-      status: 'live',
-    });
+    this.rematchStarting = true;
+    try {
+      const finished = await this.transport.fetch(this.code);
+      if (!finished || !this.result) return;
+      const next = newGameCode();
+      const game = rematchGame(finished, this.result, this.code);
+      await this.transport.create(next, game);
+      await this.transport.update(this.code, {
+        rematchOffer: null,
+        rematchCode: next,
+      });
+    } catch {
+      this.statusText = 'Could not start the rematch. Try again.';
+    } finally {
+      this.rematchStarting = false; // a failed write can be retried
+    }
+  }
 
-    // Optimistic gating until server echo updates myTurn
-    this.moveDisabled = true;
+  // Post to this game's chat; spectators only read
+  async sendChat(raw: string): Promise<void> {
+    if (!this.attached || !this.role) return;
+    const text = cleanChatText(raw);
+    if (!text) return;
+
+    const now = Date.now();
+    const wait = chatCooldownMs(this.chatSentAt, now);
+    if (wait > 0) {
+      this.chatNotice = `Slow down — try again in ${Math.ceil(wait / 1000)}s.`;
+      return;
+    }
+    this.chatSentAt = [...this.chatSentAt, now].slice(-10);
+    this.chatNotice = '';
+    try {
+      await this.transport.addMessage(this.code, {
+        from: this.role,
+        text,
+        at: this.transport.serverTimestamp(),
+      });
+    } catch {
+      this.chatNotice = 'Could not send that message. Try again.';
+    }
   }
 
   // Subscribe to changes under games/{code} and keep UI in sync
   private listenForUpdates(): void {
-    if (!this.gameRef) return;
+    if (!this.attached) return;
     if (this.unsub) this.unsub();
 
-    this.unsub = onValue(this.gameRef, (snap) => {
-      const val = snap.val() as GameDoc | null;
+    this.unsub = this.transport.subscribe(this.code, (val) => {
       if (!val) return;
 
       // Track presence of both players to enable play
@@ -291,20 +852,38 @@ export class OnlineGameComponent implements OnDestroy {
       const whitePresent = !!players.white?.id;
       const blackPresent = !!players.black?.id;
       this.bothJoined = whitePresent && blackPresent;
+      this.drawOffer = val.drawOffer ?? null;
+      this.takebackRequest = val.takebackRequest ?? null;
+      this.timeControl = val.timeControl ?? null;
+      this.clock = val.clock ? settledClock(val.clock, this.serverNow()) : null;
+      this.spectatorCount = Object.keys(val.spectators ?? {}).length;
+      this.players = players;
+      this.gameRated = val.rated === true;
+      this.variant = val.variant ?? 'standard';
+      this.presence = val.presence ?? {};
+      this.rematchOffer = val.rematchOffer ?? null;
+      this.series = val.series ?? null;
+      this.chat = chatLog(val.messages);
+
+      // A rematch was accepted: everyone here moves on to the next game
+      if (val.rematchCode && val.status === 'ended') {
+        void this.enterRematch(val.rematchCode);
+        return;
+      }
 
-      // Sync board from server; re-apply black orientation if setFEN reset it
+      // Sync board from server and rebuild the game from its move list
       if (val.fen) {
-        this.applyingRemote = true;
+        if (this.viewPly === null) this.applyFen(val.fen); // keep history view
+        this.plyCount = val.moves?.length ?? 0;
         try {
-          this.board.setFEN(val.fen);
-          this.isReversed = false;
-          this.orientForRole();
-        } finally {
-          this.applyingRemote = false;
+          this.chess = replayMoves(val.moves ?? [], val.startFen, this.variant);
+        } catch {
+          try {
+            this.chess.load(val.fen); // unreplayable list: keep the position
+          } catch {}
         }
-        try {
-          this.chess.load(val.fen);
-        } catch {}
+        this.moves = this.chess.history();
+        this.opening = this.lookupOpening();
       }
 
       // Turn gating: can move only if both joined and it's my side
@@ -316,12 +895,21 @@ export class OnlineGameComponent implements OnDestroy {
       } else {
         this.moveDisabled = true;
       }
+      this.castles =
+        this.variant === 'chess960' && !this.moveDisabled
+          ? castleMoves(this.chess)
+          : [];
 
-      if (val.status === 'ended' && val.winner) {
-        this.handleGameOver(val.winner); // also clears storage
+      if (val.status === 'ended' && (val.reason || val.winner)) {
+        // Older docs only carried a winner, which always meant checkmate
+        this.handleGameOver({
+          winner: val.winner ?? null,
+          reason: val.reason ?? 'checkmate',
+        }); // also clears storage
       } else if (!this.bothJoined) {
-        this.statusText =
-          this.role === 'white'
+        this.statusText = this.spectating
+          ? `Watching ${this.code} — waiting for players…`
+          : this.role === 'white'
             ? `Game code: ${this.code} — share it with your friend`
             : `Waiting for the host…`;
       } else {
@@ -330,46 +918,264 @@ export class OnlineGameComponent implements OnDestroy {
     });
   }
 
+  // Swap colours into the linked game; spectators keep watching it
+  private async enterRematch(next: string): Promise<void> {
+    if (this.unsub) {
+      this.unsub(); // the finished game has nothing more to say
+      this.unsub = null;
+    }
+    // Leaving the finished game is best effort: the server clears this
+    // tab's presence there once it disconnects
+    try {
+      if (this.spectatorKey) {
+        await this.transport.detachPresence(this.code, this.spectatorKey, null);
+      }
+      await this.withdrawPresence(false);
+    } catch {}
+    this.spectatorKey = null;
+    const role = this.role ? opponentOf(this.role) : null;
+
+    this.resetLocalUI();
+    this.code = next;
+    if (!role) {
+      await this.watchGame(); // reports its own failures
+      return;
+    }
+    this.role = role;
+    this.storage.save({ code: next, role, clientId: this.clientId });
+    this.attachToGame(next, true);
+    // Our seat still shows the rating from before the last game
+    void this.transport.join(next, this.clientId, this.profiles.seat).catch(() => {});
+    this.statusText = `Rematch: ${next}`;
+  }
+
   // Attach to an existing game and start listening
   private attachToGame(code: string, resume = false): void {
-    this.gameRef = ref(this.db, `games/${code}`);
+    this.attached = true;
     if (!resume) return;
     this.listenForUpdates();
+    // Best effort: the next reconnect announces again
+    void this.announcePresence().catch(() => {});
     this.isReversed = false;
     this.orientForRole();
     this.statusText = `Resumed game: ${code}`;
   }
 
-  // Keep black facing the player; white stays default
+  // Show a position without treating it as a local move; keeps black flipped
+  private applyFen(fen: string): void {
+    this.applyingRemote = true;
+    try {
+      this.isReversed = showPosition(this.board, fen, this.blackBelow);
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  // Keep black facing the player; spectators choose with the flip toggle
   private orientForRole(): void {
-    const shouldBeReversed = this.role === 'black';
-    if (shouldBeReversed !== this.isReversed) {
-      this.board.reverse();
-      this.isReversed = shouldBeReversed;
+    this.isReversed = orientBoard(this.board, this.isReversed, this.blackBelow);
+  }
+
+  private get blackBelow(): boolean {
+    return this.role ? this.role === 'black' : this.flipped;
+  }
+
+  // Opening names only fit games that start from the usual position
+  private lookupOpening(): Opening | null {
+    if (this.variant === 'chess960' || this.variant === 'horde') return null;
+    return this.openings.lookup(this.chess);
+  }
+
+  private pgn(): string {
+    return exportPgn(this.chess, {
+      event: `Online game ${this.code}`,
+      white: this.playerName('white'),
+      black: this.playerName('black'),
+      result: this.result ? resultScore(this.result) : '*',
+      timeControl: this.timeControl,
+      opening: this.opening,
+      variant: this.variant,
+    });
+  }
+
+  // Clock after my move, with `since` left for the server to fill in
+  private stampedClock(mover: Role): OnlineClock | null {
+    if (!this.clock || !this.timeControl) return null;
+    const pressed = pressClock(
+      this.clock,
+      mover,
+      this.serverNow(),
+      this.timeControl.increment,
+    );
+    return this.stamp(pressed);
+  }
+
+  // Let the server fill in when this clock state started
+  private stamp(clock: ClockState): OnlineClock {
+    return { ...clock, since: this.transport.serverTimestamp() };
+  }
+
+  // Either client may call the flag; both write the same result
+  private async checkFlag(): Promise<void> {
+    if (!this.role || this.gameOver || !this.clock) return;
+    const flagged = flaggedSide(this.clock, this.serverNow());
+    if (!flagged) return;
+    this.gameOver = true; // stop re-reporting until the echo arrives
+    try {
+      await this.writeResult(timeoutResult(this.chess, flagged, this.variant));
+    } catch {
+      this.gameOver = false; // report it again on the next tick
+      this.statusText = "Couldn't record the timeout; retrying…";
     }
   }
 
-  // Show winner, freeze UI, and clear local session so refresh returns to default
-  private handleGameOver(winner: Role): void {
+  private serverNow(): number {
+    return Date.now() + this.serverOffset;
+  }
+
+  // Seat state for the indicators: null while nobody holds the seat
+  isConnected(side: Role): boolean | null {
+    if (!this.players[side]?.id) return null;
+    return this.presence?.[side]?.online ?? true; // older clients never wrote it
+  }
+  // Seat holders as shown beside the board
+  playerName(side: Role): string {
+    return seatName(this.players[side], side);
+  }
+  playerSeat(side: Role): PlayerSeat | null {
+    return this.players[side] ?? null;
+  }
+
+  // The side drawn along the top edge of the board, and the bottom one
+  get topSide(): Role {
+    return this.isReversed ? 'white' : 'black';
+  }
+  get bottomSide(): Role {
+    return this.isReversed ? 'black' : 'white';
+  }
+
+  openProfile(): void {
+    void this.router.navigate(['/profile']);
+  }
+
+  presenceText(side: Role): string {
+    const connected = this.isConnected(side);
+    if (connected === null) return 'not joined';
+    return connected ? 'connected' : 'disconnected';
+  }
+
+  // Opponent stayed away long enough: end the game in my favour or drawn
+  async claimWin(): Promise<void> {
+    if (!this.role || !this.canClaimAbandonment) return;
+    await this.writeResult({ winner: this.role, reason: 'abandonment' });
+  }
+  async claimDraw(): Promise<void> {
+    if (!this.role || !this.canClaimAbandonment) return;
+    await this.writeResult({ winner: null, reason: 'abandonment' });
+  }
+
+  // Mark my seat online; the server marks it offline if this tab disappears
+  private async announcePresence(): Promise<void> {
+    if (!this.role || !this.code) return;
+    this.presenceKey = `presence/${this.role}`;
+    await this.transport.attachPresence(
+      this.code,
+      this.presenceKey,
+      this.presenceStamp(true),
+      this.presenceStamp(false),
+    );
+  }
+
+  // Stop reporting presence: offline when just navigating away, removed on leave
+  private async withdrawPresence(stayOffline: boolean): Promise<void> {
+    const key = this.presenceKey;
+    if (!key) return;
+    this.presenceKey = null;
+    const last = stayOffline ? this.presenceStamp(false) : null;
+    await this.transport.detachPresence(this.code, key, last);
+  }
+
+  private presenceStamp(online: boolean): PresenceDoc {
+    return { online, lastSeen: this.transport.serverTimestamp() };
+  }
+
+  // End the game for both clients; each reacts in listenForUpdates. False
+  // when another result got there first, which the listener then shows.
+  private async writeResult(result: GameResult): Promise<boolean> {
+    if (!this.attached) return false;
+    return this.transport.endGame(this.code, {
+      winner: result.winner,
+      reason: result.reason,
+      result: resultScore(result),
+      drawOffer: null,
+      takebackRequest: null,
+      clock: this.clock ? stopClock(this.clock, this.serverNow()) : null,
+    });
+  }
+
+  // Clock face for one side, or null in untimed games
+  clockText(side: Role): string | null {
+    if (!this.clock) return null;
+    return formatClock(remainingMs(this.clock, side, this.serverNow()));
+  }
+  isClockRunning(side: Role): boolean {
+    return !this.gameOver && this.clock?.running === side;
+  }
+  get timeControlText(): string {
+    return timeControlLabel(this.timeControl);
+  }
+
+  // Show result, freeze UI, and clear local session so refresh returns to default
+  private handleGameOver(result: GameResult): void {
     this.moveDisabled = true;
-    this.overlayText = `${winner.toUpperCase()} wins by checkmate`;
+    this.gameOver = true;
+    this.result = result;
+    if (this.clock) this.clock = stopClock(this.clock, this.serverNow());
+    this.drawOffer = null;
+    this.statusText = `Game: ${this.code} — ${resultText(result)}`;
+    this.overlayText = resultText(result);
     this.overlayVisible = true;
     this.storage.clear(); // important: drop code/role on game end
+    // Once per game: the listener repeats on later writes, and the client
+    // that flagged or moved last has already set gameOver
+    if (!this.recordedResult && this.role && result.reason !== 'aborted') {
+      this.recordedResult = true;
+      this.recordForProfile(this.role, result);
+      void this.archive.add({
+        mode: 'online',
+        pgn: this.pgn(),
+        result,
+        score: resultScore(result),
+        playedAt: Date.now(),
+        white: this.playerName('white'),
+        black: this.playerName('black'),
+        playerColor: this.role,
+        opponent: this.playerName(opponentOf(this.role)),
+      });
+    }
   }
 
-  // 6-char shareable room code
-  private makeCode(): string {
-    return Math.random().toString(36).slice(2, 8).toUpperCase();
+  // Count the game in my record and, if rated, my rating
+  private recordForProfile(role: Role, result: GameResult): void {
+    const before = this.profiles.profile.rating;
+    this.profiles.recordGame({
+      code: this.code,
+      result,
+      role,
+      opponent: opponentSeat(this.players, role),
+      rated: this.gameRated,
+    });
+    const after = this.profiles.profile.rating;
+    if (after !== before) {
+      const change = after > before ? `+${after - before}` : `${after - before}`;
+      this.ratingText = `Rating ${after} (${change})`;
+    }
   }
 
   // Generate or reuse a stable client id for this browser tab
   private ensureClientId(): string {
     const existing = (this.storage.load() as OnlineLocalState | null)?.clientId;
-    if (existing) return existing;
-    const id =
-      crypto?.randomUUID?.() ??
-      Math.random().toString(36).slice(2) + Date.now().toString(36);
-    return id;
+    return existing ?? newClientId();
   }
 
   // Reset local UI to the pre-game state (does not delete remote doc)
@@ -378,15 +1184,42 @@ export class OnlineGameComponent implements OnDestroy {
       this.unsub();
       this.unsub = null;
     }
-    this.gameRef = null;
+    this.attached = false;
     this.storage.clear();
     this.role = null;
+    this.spectating = false;
+    this.spectatorCount = 0;
+    this.players = {};
+    this.presence = {};
+    this.presenceKey = null;
+    this.flipped = false;
     this.code = '';
     this.statusText = 'Create a game or join one.';
     this.overlayVisible = false;
     this.overlayText = '';
     this.bothJoined = false;
     this.moveDisabled = true;
+    this.gameOver = false;
+    this.result = null;
+    this.recordedResult = false;
+    this.exportNote = '';
+    this.drawOffer = null;
+    this.takebackRequest = null;
+    this.rematchOffer = null;
+    this.series = null;
+    this.rematchStarting = false;
+    this.chat = [];
+    this.chatMuted = false;
+    this.chatNotice = '';
+    this.promotionAnswer = null;
+    this.plyCount = 0;
+    this.moves = [];
+    this.viewPly = null;
+    this.opening = null;
+    this.castles = [];
+    this.gameRated = false;
+    this.ratingText = '';
+    this.clock = null;
     this.isReversed = false;
     this.chess = new Chess();
     this.applyingRemote = true;
@@ -400,22 +1233,9 @@ export class OnlineGameComponent implements OnDestroy {
   // Click-to-copy game code
   async copyCode(): Promise<void> {
     if (!this.code) return;
-    try {
-      if (navigator?.clipboard?.writeText) {
-        await navigator.clipboard.writeText(this.code);
-      } else {
-        const ta = document.createElement('textarea');
-        ta.value = this.code;
-        ta.style.position = 'fixed';
-        ta.style.opacity = '0';
-        document.body.appendChild(ta);
-        ta.select();
-        document.execCommand('copy');
-        document.body.removeChild(ta);
-      }
-      this.copied = true;
-      if (this.copyTimer) window.clearTimeout(this.copyTimer);
-      this.copyTimer = window.setTimeout(() => (this.copied = false), 1200);
-    } catch {}
+    if (!(await this.exporter.copyText(this.code))) return;
+    this.copied = true;
+    if (this.copyTimer) window.clearTimeout(this.copyTimer);
+    this.copyTimer = window.setTimeout(() => (this.copied = false), 1200);
   }
 }
@@ -0,0 +1,130 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { resultText } from '../../chess/game-result';
+import { AVATARS, START_RATING, scoreFor } from '../../profile/player-profile';
+import { ArchiveService } from '../../services/archive.service';
+import { ProfileService } from '../../services/profile.service';
+import { ArchivedGame } from '../../types/archive';
+import { PlayerProfile } from '../../types/profile';
+
+const RECENT_GAMES = 10;
+
+// Rating chart size in SVG units
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+
+@Component({
+  selector: 'app-profile',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './profile.component.html',
+  styleUrls: ['./profile.component.scss'],
+})
+export class ProfileComponent implements OnInit {
+  readonly avatars = AVATARS;
+  readonly chartWidth = CHART_WIDTH;
+  readonly chartHeight = CHART_HEIGHT;
+
+  // Edited copies; saved with the button
+  name = '';
+  avatar = '';
+  saved = false;
+
+  recent: ArchivedGame[] = [];
+  confirmingReset = false;
+
+  constructor(
+    private profiles: ProfileService,
+    private archive: ArchiveService,
+    private router: Router,
+  ) {}
+
+  ngOnInit(): void {
+    this.name = this.profile.name;
+    this.avatar = this.profile.avatar;
+    void this.loadRecent();
+  }
+
+  get profile(): PlayerProfile {
+    return this.profiles.profile;
+  }
+
+  get gamesPlayed(): number {
+    const { wins, losses, draws } = this.profile.record;
+    return wins + losses + draws;
+  }
+
+  // Lowest and highest rating on the chart, with the start included
+  get ratingRange(): { low: number; high: number } {
+    const ratings = this.chartRatings();
+    return { low: Math.min(...ratings), high: Math.max(...ratings) };
+  }
+
+  // SVG polyline points: the start rating, then one per rated game
+  get chartPoints(): string {
+    const ratings = this.chartRatings();
+    const { low, high } = this.ratingRange;
+    const span = Math.max(high - low, 1);
+    const step = (CHART_WIDTH - 2 * CHART_PADDING) / (ratings.length - 1);
+    return ratings
+      .map((rating, i) => {
+        const x = CHART_PADDING + i * step;
+        const y =
+          CHART_HEIGHT -
+          CHART_PADDING -
+          ((rating - low) / span) * (CHART_HEIGHT - 2 * CHART_PADDING);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+  }
+
+  pickAvatar(avatar: string): void {
+    this.avatar = this.avatar === avatar ? '' : avatar;
+    this.saved = false;
+  }
+
+  save(): void {
+    this.profiles.rename(this.name, this.avatar);
+    this.name = this.profile.name;
+    this.saved = true;
+  }
+
+  // Rating and record start over; the name and avatar stay
+  reset(): void {
+    if (!this.confirmingReset) {
+      this.confirmingReset = true; // second click confirms
+      return;
+    }
+    this.profiles.reset();
+    this.confirmingReset = false;
+  }
+
+  // "Won", "Lost" or "Drew", seen from the side I played
+  outcome(game: ArchivedGame): string {
+    if (game.result.reason === 'aborted' || !game.playerColor) return '—';
+    const score = scoreFor(game.result, game.playerColor);
+    return score === 1 ? 'Won' : score === 0 ? 'Lost' : 'Drew';
+  }
+
+  resultLabel(game: ArchivedGame): string {
+    return resultText(game.result);
+  }
+
+  openArchive(): void {
+    void this.router.navigate(['/archive']);
+  }
+
+  private chartRatings(): number[] {
+    return [START_RATING, ...this.profile.history.map((p) => p.rating)];
+  }
+
+  private async loadRecent(): Promise<void> {
+    const games = await this.archive.list();
+    this.recent = games
+      .filter((g) => g.mode === 'online')
+      .slice(0, RECENT_GAMES);
+  }
+}
@@ -0,0 +1,297 @@
+import {
+  AfterViewInit,
+  Component,
+  Inject,
+  OnDestroy,
+  ViewChild,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { NgxChessBoardModule, NgxChessBoardView } from 'ngx-chess-board';
+import { StorageService, STORAGE_KEY } from '../../services/storage.service';
+import { PuzzleService } from '../../services/puzzle.service';
+import {
+  lastBoardMove,
+  routePromotionDialog,
+  showPosition,
+} from '../../chess/moves';
+import {
+  filterPuzzles,
+  pickPuzzle,
+  PuzzleRun,
+  puzzleThemes,
+  ratePuzzle,
+} from '../../puzzles/puzzle-set';
+import { START_RATING } from '../../profile/player-profile';
+import { PromotionPickerComponent } from '../../shared/promotion-picker/promotion-picker.component';
+import { Promotion } from '../../types/messages';
+import {
+  Puzzle,
+  PuzzleFilter,
+  PuzzleOutcome,
+  PuzzleProgress,
+} from '../../types/puzzle';
+
+const REPLY_DELAY_MS = 500; // pause before the opponent's move is shown
+
+@Component({
+  selector: 'app-puzzles',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    NgxChessBoardModule,
+    PromotionPickerComponent,
+  ],
+  templateUrl: './puzzles.component.html',
+  styleUrls: ['./puzzles.component.scss'],
+  providers: [
+    { provide: STORAGE_KEY, useValue: 'puzzle-progress' },
+    { provide: StorageService, useClass: StorageService<PuzzleProgress> },
+  ],
+})
+export class PuzzlesComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('board', { static: true }) board!: NgxChessBoardView;
+
+  // The set and its filters
+  puzzles: Puzzle[] = [];
+  themes: string[] = [];
+  filter: PuzzleFilter = { theme: null, minRating: 400, maxRating: 3000 };
+  importNote = '';
+
+  // The puzzle on the board
+  run: PuzzleRun | null = null;
+  state: 'loading' | 'solving' | 'solved' | 'failed' | 'empty' = 'loading';
+  feedback = '';
+  hintText = '';
+  promotionAnswer: ((piece: Promotion) => void) | null = null; // picker open
+  private outcome: PuzzleOutcome | null = null; // first attempt, once recorded
+  private replying = false; // opponent's move on its way
+  private timer: number | null = null;
+  private applyingBoard = false; // true while the board is set from code
+  private isReversed = false;
+
+  progress: PuzzleProgress;
+
+  constructor(
+    @Inject(StorageService) private storage: StorageService<PuzzleProgress>,
+    private puzzleService: PuzzleService,
+  ) {
+    this.progress = this.storage.load() ?? { rating: START_RATING, results: {} };
+  }
+
+  async ngAfterViewInit(): Promise<void> {
+    // Our picker replaces the board's own promotion dialog
+    routePromotionDialog(this.board, (answer) => (this.promotionAnswer = answer));
+    await this.loadPuzzles();
+    this.next();
+  }
+
+  ngOnDestroy(): void {
+    this.clearTimer();
+  }
+
+  // Only the solver's pieces move, and only while it's their turn
+  get darkDisabled(): boolean {
+    return this.run?.solver !== 'black' || this.locked;
+  }
+  get lightDisabled(): boolean {
+    return this.run?.solver !== 'white' || this.locked;
+  }
+  private get locked(): boolean {
+    return this.state !== 'solving' || this.replying || !!this.promotionAnswer;
+  }
+
+  get solverText(): string {
+    return this.run ? `Find the best move for ${this.run.solver}` : '';
+  }
+  get solvedCount(): number {
+    return this.countResults('solved');
+  }
+  get failedCount(): number {
+    return this.countResults('failed');
+  }
+  get matchingCount(): number {
+    return filterPuzzles(this.puzzles, this.filter).length;
+  }
+
+  // The next puzzle matching the filters
+  next(): void {
+    const pool = filterPuzzles(this.puzzles, this.filter);
+    const puzzle = pickPuzzle(pool, this.progress, this.run?.puzzle.id);
+    if (!puzzle) {
+      this.clearTimer();
+      this.run = null;
+      this.state = 'empty';
+      this.feedback = 'No puzzles match these filters.';
+      return;
+    }
+    this.start(puzzle);
+  }
+
+  // Same puzzle again; the first attempt's result stands
+  retry(): void {
+    if (this.run) this.start(this.run.puzzle);
+  }
+
+  onUserMove(): void {
+    if (this.applyingBoard || !this.run || this.locked) return;
+    const move = lastBoardMove(this.board);
+    const verdict = move ? this.run.tryMove(move) : 'wrong';
+
+    if (verdict === 'wrong') {
+      this.record('failed');
+      this.feedback = 'Not the move. Try again.';
+      this.applyFen(this.run.chess.fen()); // snap back
+      return;
+    }
+    this.hintText = '';
+    this.applyFen(this.run.chess.fen());
+    if (verdict === 'solved') {
+      this.record('solved');
+      this.state = 'solved';
+      this.feedback = this.outcome === 'solved' ? 'Solved!' : 'Solved, at last.';
+      return;
+    }
+    this.feedback = 'Best move! Keep going.';
+    this.playReply();
+  }
+
+  choosePromotion(piece: Promotion): void {
+    const answer = this.promotionAnswer;
+    this.promotionAnswer = null;
+    answer?.(piece);
+  }
+
+  cancelPromotion(): void {
+    this.promotionAnswer = null;
+    if (this.run) this.applyFen(this.run.chess.fen());
+  }
+
+  // Name the piece to move; doesn't count against the attempt
+  hint(): void {
+    if (this.run && this.state === 'solving') this.hintText = this.run.hint();
+  }
+
+  // Play out the rest of the line; counts as a failed attempt
+  showSolution(): void {
+    const run = this.run;
+    if (!run || this.state !== 'solving') return;
+    this.record('failed');
+    this.state = 'failed';
+    this.hintText = '';
+    this.feedback = 'Solution';
+    this.clearTimer();
+    const step = () => {
+      if (!run.playNext()) return;
+      this.applyFen(run.chess.fen());
+      this.timer = window.setTimeout(step, REPLY_DELAY_MS);
+    };
+    step();
+  }
+
+  // Filters
+  onFilterChange(): void {
+    if (this.state === 'empty') this.next();
+  }
+
+  // Add puzzles from a Lichess CSV file
+  async importFile(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    input.value = ''; // allow picking the same file again
+    if (!file) return;
+    try {
+      const { added, skipped } = await this.puzzleService.importCsv(
+        await file.text(),
+      );
+      this.importNote = skipped
+        ? `Imported ${added} puzzles, skipped ${skipped} unreadable rows.`
+        : `Imported ${added} puzzles.`;
+    } catch {
+      this.importNote = 'Could not store the puzzles in this browser.';
+      return;
+    }
+    await this.loadPuzzles();
+    if (this.state === 'empty') this.next();
+  }
+
+  async clearImported(): Promise<void> {
+    if (!(await this.puzzleService.clearImported())) {
+      this.importNote = 'Could not remove the imported puzzles.';
+      return;
+    }
+    this.importNote = 'Imported puzzles removed.';
+    await this.loadPuzzles();
+  }
+
+  resetProgress(): void {
+    this.progress = { rating: START_RATING, results: {} };
+    this.storage.save(this.progress);
+  }
+
+  private async loadPuzzles(): Promise<void> {
+    this.puzzles = await this.puzzleService.all();
+    this.themes = puzzleThemes(this.puzzles);
+  }
+
+  // Show the position, then the opponent's setup move
+  private start(puzzle: Puzzle): void {
+    this.clearTimer();
+    this.run = new PuzzleRun(puzzle);
+    this.outcome = this.progress.results[puzzle.id] ?? null;
+    this.state = 'solving';
+    this.feedback = '';
+    this.hintText = '';
+    this.applyFen(puzzle.fen);
+    this.replying = true;
+    this.timer = window.setTimeout(() => {
+      this.replying = false;
+      if (this.run) this.applyFen(this.run.chess.fen());
+    }, REPLY_DELAY_MS);
+  }
+
+  private playReply(): void {
+    const run = this.run;
+    if (!run) return;
+    this.replying = true;
+    this.timer = window.setTimeout(() => {
+      this.replying = false;
+      run.playNext();
+      this.applyFen(run.chess.fen());
+    }, REPLY_DELAY_MS);
+  }
+
+  // Only the first attempt at a puzzle moves the rating
+  private record(outcome: PuzzleOutcome): void {
+    if (!this.run || this.outcome) return;
+    this.outcome = outcome;
+    this.progress = {
+      rating: ratePuzzle(this.progress.rating, this.run.puzzle.rating, outcome),
+      results: { ...this.progress.results, [this.run.puzzle.id]: outcome },
+    };
+    this.storage.save(this.progress);
+  }
+
+  private countResults(outcome: PuzzleOutcome): number {
+    return Object.values(this.progress.results).filter((r) => r === outcome)
+      .length;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) window.clearTimeout(this.timer);
+    this.timer = null;
+    this.replying = false;
+  }
+
+  // Show a position without treating it as a user move; the solver's side
+  // is at the bottom
+  private applyFen(fen: string): void {
+    this.applyingBoard = true;
+    try {
+      const blackBelow = this.run?.solver === 'black';
+      this.isReversed = showPosition(this.board, fen, blackBelow);
+    } finally {
+      this.applyingBoard = false;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { SavedGame } from '../chess/saved-game';
+import { WireMessage } from '../types/messages';
+import { HORDE_FEN } from '../variants/variants';
+import { HotseatLink } from './hotseat-link';
+
+const HEARTBEAT_MS = 40;
+
+// Let BroadcastChannel deliveries and timers run
+function settle(ms = HEARTBEAT_MS * 2): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// A tab: its link plus everything it was told
+function openTab(channel: string) {
+  const tab = {
+    board: [] as WireMessage[],
+    states: [] as SavedGame[],
+    link: null as unknown as HotseatLink,
+  };
+  tab.link = new HotseatLink(
+    {
+      board: (msg) => tab.board.push(msg),
+      state: (game) => tab.states.push(game),
+      ended: () => {},
+    },
+    { channel, heartbeatMs: HEARTBEAT_MS },
+  );
+  return tab;
+}
+
+describe('HotseatLink', () => {
+  let channel: string;
+  let tabs: ReturnType<typeof openTab>[];
+
+  beforeEach(() => {
+    channel = `test-hotseat-${Math.random().toString(36).slice(2)}`;
+    tabs = [];
+  });
+
+  afterEach(() => {
+    for (const tab of tabs) tab.link.stop();
+  });
+
+  async function startTab(side: 'white' | 'black') {
+    const tab = openTab(channel);
+    tabs.push(tab);
+    tab.link.setSide(side);
+    tab.link.start(null);
+    await settle();
+    return tab;
+  }
+
+  it('lets the first tab host and a later tab join it', async () => {
+    const white = await startTab('white');
+    const black = await startTab('black');
+
+    expect(white.link.isHost).toBeTrue();
+    expect(black.link.isHost).toBeFalse();
+    expect(black.link.tabCount).toBe(2);
+  });
+
+  it('relays a move from a joining tab through the host', async () => {
+    const white = await startTab('white');
+    const black = await startTab('black');
+
+    white.link.fromBoard({ type: 'MOVE', move: { from: 'e2', to: 'e4' } });
+    await settle();
+    black.link.fromBoard({ type: 'MOVE', move: { from: 'e7', to: 'e5' } });
+    await settle();
+
+    expect(black.states[black.states.length - 1].moves).toEqual(['e4', 'e5']);
+    expect(white.board).toContain(
+      jasmine.objectContaining({ type: 'TURN', turn: 'w', ply: 2 }),
+    );
+  });
+
+  it('rejects a move from the side not to move', async () => {
+    await startTab('white');
+    const black = await startTab('black');
+
+    black.link.fromBoard({ type: 'MOVE', move: { from: 'e7', to: 'e5' } });
+    await settle();
+
+    expect(black.board).toContain(
+      jasmine.objectContaining({ type: 'MOVE_REJECTED', reason: 'Not your turn' }),
+    );
+  });
+
+  it('hands the game to another tab when the host closes', async () => {
+    const white = await startTab('white');
+    const black = await startTab('black');
+    white.link.fromBoard({ type: 'MOVE', move: { from: 'd2', to: 'd4' } });
+    await settle();
+
+    white.link.stop();
+    await settle();
+    black.link.fromBoard({ type: 'MOVE', move: { from: 'd7', to: 'd5' } });
+    await settle();
+
+    expect(black.link.isHost).toBeTrue();
+    expect(black.states[black.states.length - 1].moves).toEqual(['d4', 'd5']);
+  });
+
+  it('starts the variant a joining tab asks for in every tab', async () => {
+    const white = await startTab('white');
+    const black = await startTab('black');
+
+    black.link.newGame(null, 'horde');
+    await settle();
+
+    const game = white.states[white.states.length - 1];
+    expect(game.variant).toBe('horde');
+    expect(game.startFen).toBe(HORDE_FEN);
+    expect(black.states[black.states.length - 1].variant).toBe('horde');
+  });
+});
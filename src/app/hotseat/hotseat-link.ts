@@ -0,0 +1,220 @@
+import { GameCoordinator } from '../chess/game-coordinator';
+import { SavedGame } from '../chess/saved-game';
+import { TimeControl } from '../types/clock';
+import { GameResult, Role, WireMessage } from '../types/messages';
+import { Variant } from '../types/variant';
+import { newVariantGame } from '../variants/variants';
+
+// Tab-to-tab traffic. Every tab heartbeats; the oldest live tab hosts the game
+// and publishes each new state so any other tab can take over from it.
+type HotseatMessage =
+  | { type: 'heartbeat'; tab: string; side: Role | null }
+  | { type: 'bye'; tab: string }
+  | { type: 'state'; rev: number; game: SavedGame }
+  | { type: 'to-host'; side: Role; msg: WireMessage }
+  | { type: 'to-board'; side: Role; msg: WireMessage }
+  | { type: 'new-game'; timeControl: TimeControl | null; variant: Variant };
+
+// What the owning page hears about
+export interface HotseatEvents {
+  board(msg: WireMessage): void; // for the board in this tab
+  state(game: SavedGame): void; // latest game, for move list and clocks
+  ended(result: GameResult, pgn: string): void; // only in the hosting tab
+}
+
+export type HotseatOptions = {
+  channel?: string;
+  heartbeatMs?: number;
+};
+
+const CHANNEL = 'pencil-chess-hotseat';
+const HEARTBEAT_MS = 1000;
+const MISSED_HEARTBEATS = 3; // silence after which a tab counts as gone
+const FLAG_CHECK_MS = 100;
+
+// One browser tab's seat in a cross-tab hotseat game
+export class HotseatLink {
+  readonly tabId = newTabId();
+  side: Role | null = null; // board shown in this tab; null while choosing
+  isHost = false;
+
+  private channel: BroadcastChannel | null = null;
+  private peers = new Map<string, number>(); // tab id -> last heartbeat
+  private latest: { rev: number; game: SavedGame } | null = null;
+  private game: GameCoordinator | null = null; // only while hosting
+  private electing = false; // set once running tabs had a chance to answer
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private readonly heartbeatMs: number;
+  private readonly channelName: string;
+
+  constructor(
+    private events: HotseatEvents,
+    options: HotseatOptions = {},
+  ) {
+    this.heartbeatMs = options.heartbeatMs ?? HEARTBEAT_MS;
+    this.channelName = options.channel ?? CHANNEL;
+  }
+
+  // Join the other tabs; `saved` is used only if no tab has a newer game
+  start(saved: SavedGame | null): void {
+    if (saved) this.latest = { rev: 0, game: saved };
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessage = ({ data }: MessageEvent<HotseatMessage>) =>
+        this.onPeerMessage(data);
+    }
+    this.heartbeat();
+
+    // Give running tabs a moment to answer before deciding who hosts
+    this.timers.push(
+      setTimeout(() => {
+        this.electing = true;
+        this.elect();
+      }, this.heartbeatMs / 2),
+      setInterval(() => this.tick(), this.heartbeatMs),
+      setInterval(() => this.game?.checkFlag(), FLAG_CHECK_MS),
+    );
+  }
+
+  // Leave for good (tab closing or page left); another tab takes over hosting
+  stop(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers = [];
+    this.post({ type: 'bye', tab: this.tabId });
+    this.channel?.close();
+    this.channel = null;
+    this.game = null;
+    this.isHost = false;
+    this.electing = false;
+  }
+
+  setSide(side: Role | null): void {
+    this.side = side;
+    this.heartbeat();
+  }
+
+  // A message from this tab's board
+  fromBoard(msg: WireMessage): void {
+    if (!this.side) return;
+    if (this.game) this.game.handle(this.side, msg);
+    else this.post({ type: 'to-host', side: this.side, msg });
+  }
+
+  // Only the host sets up the board, so every tab gets the same 960 position
+  newGame(timeControl: TimeControl | null, variant: Variant = 'standard'): void {
+    if (this.game) this.game.start(newVariantGame(variant), timeControl, variant);
+    else this.post({ type: 'new-game', timeControl, variant });
+  }
+
+  // Tabs currently taking part, this one included
+  get tabCount(): number {
+    return this.peers.size + 1;
+  }
+
+  private onPeerMessage(msg: HotseatMessage): void {
+    switch (msg.type) {
+      case 'heartbeat': {
+        const isNew = !this.peers.has(msg.tab);
+        this.peers.set(msg.tab, Date.now());
+        if (isNew) {
+          this.heartbeat(); // introduce ourselves right away
+          if (this.game) this.publishLatest(); // bring the newcomer up to date
+          this.elect();
+        }
+        break;
+      }
+
+      case 'bye':
+        this.peers.delete(msg.tab);
+        this.elect();
+        break;
+
+      case 'state':
+        // Highest revision wins, including over a host briefly elected twice
+        if (this.latest && msg.rev <= this.latest.rev) return;
+        this.latest = { rev: msg.rev, game: msg.game };
+        this.game?.restore(msg.game);
+        this.events.state(msg.game);
+        break;
+
+      case 'to-host':
+        this.game?.handle(msg.side, msg.msg);
+        break;
+
+      case 'to-board':
+        if (msg.side === this.side) this.events.board(msg.msg);
+        break;
+
+      case 'new-game':
+        this.game?.start(newVariantGame(msg.variant), msg.timeControl, msg.variant);
+        break;
+    }
+  }
+
+  private tick(): void {
+    this.heartbeat();
+    const cutoff = Date.now() - this.heartbeatMs * MISSED_HEARTBEATS;
+    for (const [tab, seen] of this.peers) {
+      if (seen < cutoff) this.peers.delete(tab);
+    }
+    this.elect();
+  }
+
+  // The oldest live tab hosts; every tab reaches the same answer on its own
+  private elect(): void {
+    if (!this.electing) return;
+    const oldest = [this.tabId, ...this.peers.keys()].sort()[0];
+    const shouldHost = oldest === this.tabId;
+    if (shouldHost === this.isHost) return;
+    this.isHost = shouldHost;
+
+    if (!shouldHost) {
+      this.game = null;
+      return;
+    }
+
+    // Take over from the newest state any tab published
+    this.game = new GameCoordinator({
+      send: (to, msg) => this.toBoard(to, msg),
+      changed: () => this.publish(),
+      ended: (result) => this.events.ended(result, this.game?.pgn() ?? ''),
+    });
+    if (!this.latest || !this.game.restore(this.latest.game)) {
+      this.publish(); // nothing usable yet: a fresh game
+    }
+    this.publishLatest();
+    this.game.syncAll();
+  }
+
+  // Record the host's game as a new revision and share it
+  private publish(): void {
+    if (!this.game) return;
+    const rev = (this.latest?.rev ?? 0) + 1;
+    this.latest = { rev, game: this.game.snapshot() };
+    this.events.state(this.latest.game);
+    this.publishLatest();
+  }
+
+  private publishLatest(): void {
+    if (this.latest) this.post({ type: 'state', ...this.latest });
+  }
+
+  private toBoard(side: Role, msg: WireMessage): void {
+    if (side === this.side) this.events.board(msg);
+    this.post({ type: 'to-board', side, msg });
+  }
+
+  private heartbeat(): void {
+    this.post({ type: 'heartbeat', tab: this.tabId, side: this.side });
+  }
+
+  private post(msg: HotseatMessage): void {
+    this.channel?.postMessage(msg);
+  }
+}
+
+// Sorts by opening time, so the longest-running tab wins elections
+function newTabId(): string {
+  const opened = Date.now().toString(36).padStart(10, '0');
+  return `${opened}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,37 @@
+import { ChatMessage } from '../types/online';
+import {
+  CHAT_MAX_LENGTH,
+  chatCooldownMs,
+  chatLog,
+  cleanChatText,
+} from './chat';
+
+describe('chat', () => {
+  it('trims, folds whitespace and caps the length', () => {
+    expect(cleanChatText('  good \n  game  ')).toBe('good game');
+    expect(cleanChatText('x'.repeat(500))?.length).toBe(CHAT_MAX_LENGTH);
+    expect(cleanChatText('   ')).toBeNull();
+  });
+
+  it('lets a burst through, then asks to wait', () => {
+    const sentAt = [0, 1000, 2000, 3000, 4000];
+
+    expect(chatCooldownMs(sentAt.slice(0, 4), 4500)).toBe(0);
+    expect(chatCooldownMs(sentAt, 4500)).toBe(5500);
+    expect(chatCooldownMs(sentAt, 10_000)).toBe(0);
+  });
+
+  it('orders messages by key and drops malformed ones', () => {
+    const messages = {
+      b: { from: 'black', text: 'Thanks', at: 2 },
+      a: { from: 'white', text: 'Good luck', at: 1 },
+      c: { from: 'someone', text: 'spam', at: 3 },
+    } as unknown as Record<string, ChatMessage>;
+
+    expect(chatLog(messages).map((m) => m.text)).toEqual([
+      'Good luck',
+      'Thanks',
+    ]);
+    expect(chatLog(undefined)).toEqual([]);
+  });
+});
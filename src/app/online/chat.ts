@@ -0,0 +1,37 @@
+import { ChatMessage } from '../types/online';
+
+export const CHAT_MAX_LENGTH = 200; // characters per message
+export const QUICK_MESSAGES = ['Good luck', 'Well played', 'Thanks'];
+
+// At most RATE_MAX messages in any RATE_WINDOW_MS
+const RATE_MAX = 5;
+const RATE_WINDOW_MS = 10_000;
+
+// Trim, fold whitespace and cap the length; null if nothing is left to send
+export function cleanChatText(raw: string): string | null {
+  const text = raw.replace(/\s+/g, ' ').trim().slice(0, CHAT_MAX_LENGTH);
+  return text || null;
+}
+
+// How long to wait before the next message may go out; 0 = send now.
+// `sentAt` holds this client's recent send times, oldest first.
+export function chatCooldownMs(sentAt: number[], now: number): number {
+  const recent = sentAt.filter((t) => now - t < RATE_WINDOW_MS);
+  if (recent.length < RATE_MAX) return 0;
+  return recent[recent.length - RATE_MAX] + RATE_WINDOW_MS - now;
+}
+
+// Messages in sending order; malformed entries from other clients are dropped
+export function chatLog(
+  messages: Record<string, ChatMessage> | undefined,
+): ChatMessage[] {
+  return Object.keys(messages ?? {})
+    .sort()
+    .map((key) => messages![key])
+    .filter(
+      (m) =>
+        (m?.from === 'white' || m?.from === 'black') &&
+        typeof m.text === 'string',
+    )
+    .map((m) => ({ ...m, text: m.text.slice(0, CHAT_MAX_LENGTH) }));
+}
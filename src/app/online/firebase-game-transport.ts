@@ -0,0 +1,151 @@
+import { FirebaseOptions, initializeApp } from 'firebase/app';
+import {
+  Database,
+  getDatabase,
+  equalTo,
+  get,
+  onDisconnect,
+  onValue,
+  orderByChild,
+  push,
+  query,
+  ref,
+  remove,
+  serverTimestamp,
+  set,
+  update,
+} from 'firebase/database';
+import { Role } from '../types/messages';
+import { ChatMessage, GameDoc, PlayerSeat, ServerTime } from '../types/online';
+import {
+  cancelSeek,
+  claimSeat,
+  dropStaleSeek,
+  finishGame,
+  firebaseGameDatabase,
+  GameDatabase,
+  MoveExpectation,
+  releaseSeat,
+  submitMove,
+  takeBack,
+  TakebackExpectation,
+} from './game-transactions';
+import { GameTransport, Unsubscribe } from './game-transport';
+
+// Realtime Database backend; one app per page
+export class FirebaseGameTransport implements GameTransport {
+  private db: Database;
+  private tx: GameDatabase;
+
+  constructor(config: FirebaseOptions) {
+    this.db = getDatabase(initializeApp(config));
+    this.tx = firebaseGameDatabase(this.db);
+  }
+
+  async create(code: string, game: GameDoc): Promise<void> {
+    await set(this.gameRef(code), game);
+  }
+
+  join(code: string, clientId: string, profile?: Omit<PlayerSeat, 'id'>) {
+    return claimSeat(this.tx, code, clientId, profile);
+  }
+
+  leave(code: string, role: Role, clientId: string): Promise<void> {
+    return releaseSeat(this.tx, code, role, clientId);
+  }
+
+  submitMove(code: string, expected: MoveExpectation, next: Partial<GameDoc>) {
+    return submitMove(this.tx, code, expected, next);
+  }
+
+  endGame(code: string, ending: Partial<GameDoc>): Promise<boolean> {
+    return finishGame(this.tx, code, ending);
+  }
+
+  takeBack(
+    code: string,
+    expected: TakebackExpectation,
+    next: Partial<GameDoc>,
+  ): Promise<boolean> {
+    return takeBack(this.tx, code, expected, next);
+  }
+
+  subscribe(code: string, onGame: (game: GameDoc | null) => void): Unsubscribe {
+    return onValue(this.gameRef(code), (snap) => onGame(snap.val()));
+  }
+
+  subscribeWaiting(
+    onGames: (games: Record<string, GameDoc>) => void,
+  ): Unsubscribe {
+    const waiting = query(
+      ref(this.db, 'games'),
+      orderByChild('status'),
+      equalTo('waiting'),
+    );
+    return onValue(waiting, (snap) => onGames(snap.val() ?? {}));
+  }
+
+  cancelSeek(code: string, clientId: string): Promise<void> {
+    return cancelSeek(this.tx, code, clientId);
+  }
+
+  dropStaleSeek(code: string, now: number): Promise<void> {
+    return dropStaleSeek(this.tx, code, now);
+  }
+
+  async fetch(code: string): Promise<GameDoc | null> {
+    const snap = await get(this.gameRef(code));
+    return snap.exists() ? (snap.val() as GameDoc) : null;
+  }
+
+  async update(code: string, patch: Partial<GameDoc>): Promise<void> {
+    await update(this.gameRef(code), patch);
+  }
+
+  async addMessage(code: string, message: ChatMessage): Promise<void> {
+    await push(ref(this.db, `games/${code}/messages`), message);
+  }
+
+  async attachPresence(
+    code: string,
+    key: string,
+    online: unknown,
+    offline: unknown | null,
+  ): Promise<void> {
+    const entry = ref(this.db, `games/${code}/${key}`);
+    if (offline === null) await onDisconnect(entry).remove();
+    else await onDisconnect(entry).set(offline);
+    await set(entry, online);
+  }
+
+  async detachPresence(
+    code: string,
+    key: string,
+    last: unknown | null,
+  ): Promise<void> {
+    const entry = ref(this.db, `games/${code}/${key}`);
+    await onDisconnect(entry).cancel();
+    if (last === null) await remove(entry);
+    else await set(entry, last);
+  }
+
+  onConnected(listener: (connected: boolean) => void): Unsubscribe {
+    return onValue(ref(this.db, '.info/connected'), (snap) =>
+      listener(snap.val() === true),
+    );
+  }
+
+  onServerOffset(listener: (offsetMs: number) => void): Unsubscribe {
+    return onValue(ref(this.db, '.info/serverTimeOffset'), (snap) =>
+      listener(snap.val() ?? 0),
+    );
+  }
+
+  serverTimestamp(): ServerTime {
+    return serverTimestamp();
+  }
+
+  private gameRef(code: string) {
+    return ref(this.db, `games/${code}`);
+  }
+}
@@ -0,0 +1,356 @@
+import { GameDoc } from '../types/online';
+import {
+  claimSeat,
+  finishGame,
+  GameDatabase,
+  MOVE_CONFLICT_TEXT,
+  releaseSeat,
+  submitMove,
+  takeBack,
+} from './game-transactions';
+
+// In-memory stand-in for RTDB transactions: the update first sees the local
+// cache (possibly stale or empty) and is re-run until it saw the server value
+class FakeGameDatabase implements GameDatabase {
+  server = new Map<string, unknown>();
+  cache = new Map<string, unknown>(); // what this client last heard
+
+  async transact<T>(
+    path: string,
+    update: (current: T | null) => T | null | undefined,
+  ): Promise<{ committed: boolean; value: T | null }> {
+    let seen = this.cache.has(path) ? this.cache.get(path) : null;
+    for (;;) {
+      const next = update(clone(seen) as T | null);
+      const actual = this.server.get(path) ?? null;
+      if (JSON.stringify(seen) !== JSON.stringify(actual)) {
+        seen = actual; // lost the race: retry on the real value
+        continue;
+      }
+      if (next === undefined) {
+        return { committed: false, value: clone(actual) as T | null };
+      }
+      if (next === null) this.server.delete(path);
+      else this.server.set(path, clone(next));
+      this.cache.set(path, clone(next));
+      return { committed: true, value: clone(next) };
+    }
+  }
+
+  game(code = 'ABC123'): GameDoc {
+    return this.server.get(`games/${code}`) as GameDoc;
+  }
+}
+
+// Copy the way RTDB stores values: nulls inside objects are dropped
+function clone<T>(value: T): T {
+  if (value === null || value === undefined) return value;
+  return JSON.parse(
+    JSON.stringify(value, (key, v) => (key && v === null ? undefined : v)),
+  );
+}
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+function waitingGame(extra: Partial<GameDoc> = {}): GameDoc {
+  return {
+    fen: START,
+    turn: 'w',
+    status: 'waiting',
+    players: { white: { id: 'host' }, black: null },
+    ...extra,
+  };
+}
+
+describe('game transactions', () => {
+  let db: FakeGameDatabase;
+
+  beforeEach(() => {
+    db = new FakeGameDatabase();
+    db.server.set('games/ABC123', waitingGame());
+  });
+
+  describe('claimSeat', () => {
+    it('seats the first guest as black and starts the game', async () => {
+      const claim = await claimSeat(db, 'ABC123', 'guest');
+
+      expect(claim).toEqual({ role: 'black' });
+      expect(db.game().players?.black).toEqual({ id: 'guest' });
+      expect(db.game().status).toBe('live');
+    });
+
+    it('turns a second guest away once both seats are taken', async () => {
+      await claimSeat(db, 'ABC123', 'guest');
+      const claim = await claimSeat(db, 'ABC123', 'late');
+
+      expect(claim).toEqual({ error: 'full', allowSpectators: true });
+      expect(db.game().players?.black).toEqual({ id: 'guest' });
+    });
+
+    it('does not hand out a seat another guest took in the meantime', async () => {
+      db.cache.set('games/ABC123', waitingGame()); // stale: black looks free
+      db.server.set(
+        'games/ABC123',
+        waitingGame({
+          status: 'live',
+          players: { white: { id: 'host' }, black: { id: 'fast' } },
+        }),
+      );
+
+      const claim = await claimSeat(db, 'ABC123', 'slow');
+
+      expect(claim).toEqual({ error: 'full', allowSpectators: true });
+      expect(db.game().players?.black).toEqual({ id: 'fast' });
+    });
+
+    it('reports when spectating is off for a full game', async () => {
+      db.server.set(
+        'games/ABC123',
+        waitingGame({
+          allowSpectators: false,
+          players: { white: { id: 'host' }, black: { id: 'guest' } },
+        }),
+      );
+
+      const claim = await claimSeat(db, 'ABC123', 'late');
+
+      expect(claim).toEqual({ error: 'full', allowSpectators: false });
+    });
+
+    it('gives white to a guest when the host has left', async () => {
+      db.server.set('games/ABC123', waitingGame({ players: {} }));
+
+      expect(await claimSeat(db, 'ABC123', 'guest')).toEqual({ role: 'white' });
+      expect(db.game().status).toBe('waiting');
+    });
+
+    it('takes a filled game out of the lobby', async () => {
+      const seek = { name: 'host', color: 'white' as const, createdAt: 1 };
+      db.server.set('games/ABC123', waitingGame({ seek }));
+      await claimSeat(db, 'ABC123', 'guest');
+
+      expect(db.game().seek).toBeUndefined();
+    });
+
+    it('writes the player profile into the seat', async () => {
+      await claimSeat(db, 'ABC123', 'guest', { name: 'Ann', rating: 1620 });
+      expect(db.game().players?.black).toEqual({
+        id: 'guest',
+        name: 'Ann',
+        rating: 1620,
+      });
+
+      await claimSeat(db, 'ABC123', 'guest', { name: 'Ann', rating: 1636 });
+      expect(db.game().players?.black?.rating).toBe(1636);
+    });
+
+    it('lets a tab rejoin the seat it already holds', async () => {
+      await claimSeat(db, 'ABC123', 'guest');
+
+      expect(await claimSeat(db, 'ABC123', 'guest')).toEqual({ role: 'black' });
+    });
+
+    it('reports a missing game', async () => {
+      expect(await claimSeat(db, 'NOPE00', 'guest')).toEqual({
+        error: 'not-found',
+      });
+    });
+  });
+
+  describe('releaseSeat', () => {
+    it('frees the seat this tab holds', async () => {
+      await claimSeat(db, 'ABC123', 'guest');
+      await releaseSeat(db, 'ABC123', 'black', 'guest');
+
+      expect(db.game().players?.black).toBeUndefined();
+      expect(db.game().status).toBe('waiting');
+    });
+
+    it("leaves someone else's seat alone", async () => {
+      await claimSeat(db, 'ABC123', 'guest');
+      await releaseSeat(db, 'ABC123', 'black', 'old-tab');
+
+      expect(db.game().players?.black).toEqual({ id: 'guest' });
+    });
+
+    it('keeps a finished game finished', async () => {
+      db.server.set('games/ABC123', waitingGame({ status: 'ended' }));
+      await releaseSeat(db, 'ABC123', 'white', 'host');
+
+      expect(db.game().status).toBe('ended');
+    });
+  });
+
+  describe('submitMove', () => {
+    const afterE4 = {
+      fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1',
+      moves: ['e4'],
+      turn: 'b' as const,
+      status: 'live' as const,
+    };
+
+    beforeEach(async () => {
+      await claimSeat(db, 'ABC123', 'guest');
+    });
+
+    it('writes a move made on the current position', async () => {
+      const written = await submitMove(
+        db,
+        'ABC123',
+        { role: 'white', clientId: 'host', ply: 0 },
+        afterE4,
+      );
+
+      expect(written).toEqual({ ok: true });
+      expect(db.game().moves).toEqual(['e4']);
+      expect(db.game().turn).toBe('b');
+    });
+
+    it('rejects a move from a stale position', async () => {
+      await submitMove(
+        db,
+        'ABC123',
+        { role: 'white', clientId: 'host', ply: 0 },
+        afterE4,
+      );
+
+      // A second tab still showing the start position
+      const written = await submitMove(
+        db,
+        'ABC123',
+        { role: 'white', clientId: 'host', ply: 0 },
+        { ...afterE4, moves: ['d4'] },
+      );
+
+      expect(written).toEqual({ ok: false, error: MOVE_CONFLICT_TEXT });
+      expect(db.game().moves).toEqual(['e4']);
+    });
+
+    it('rejects a move from a tab that lost its seat', async () => {
+      const written = await submitMove(
+        db,
+        'ABC123',
+        { role: 'white', clientId: 'intruder', ply: 0 },
+        afterE4,
+      );
+
+      expect(written.ok).toBeFalse();
+      expect(db.game().moves).toBeUndefined();
+    });
+
+    it('rejects moves once the game has ended', async () => {
+      db.server.set('games/ABC123', { ...db.game(), status: 'ended' });
+
+      const written = await submitMove(
+        db,
+        'ABC123',
+        { role: 'white', clientId: 'host', ply: 0 },
+        afterE4,
+      );
+
+      expect(written).toEqual({ ok: false, error: 'The game is already over.' });
+    });
+  });
+
+  describe('finishGame', () => {
+    beforeEach(async () => {
+      await claimSeat(db, 'ABC123', 'guest');
+    });
+
+    it('ends a game that is still being played', async () => {
+      const ended = await finishGame(db, 'ABC123', {
+        winner: 'black',
+        reason: 'resignation',
+      });
+
+      expect(ended).toBeTrue();
+      expect(db.game().status).toBe('ended');
+      expect(db.game().reason).toBe('resignation');
+    });
+
+    it('keeps the first result when two race', async () => {
+      await finishGame(db, 'ABC123', { winner: 'black', reason: 'timeout' });
+      const ended = await finishGame(db, 'ABC123', {
+        winner: 'white',
+        reason: 'resignation',
+      });
+
+      expect(ended).toBeFalse();
+      expect(db.game().winner).toBe('black');
+      expect(db.game().reason).toBe('timeout');
+    });
+  });
+
+  describe('takeBack', () => {
+    const start = {
+      fen: START,
+      moves: [],
+      turn: 'w' as const,
+      takebackRequest: null,
+    };
+
+    beforeEach(async () => {
+      await claimSeat(db, 'ABC123', 'guest');
+      await submitMove(
+        db,
+        'ABC123',
+        { role: 'white', clientId: 'host', ply: 0 },
+        {
+          fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1',
+          moves: ['e4'],
+          turn: 'b',
+          takebackRequest: 'white',
+        },
+      );
+    });
+
+    it('undoes the move the takeback was accepted on', async () => {
+      const undone = await takeBack(
+        db,
+        'ABC123',
+        { requester: 'white', ply: 1 },
+        start,
+      );
+
+      expect(undone).toBeTrue();
+      expect(db.game().moves).toEqual([]);
+      expect(db.game().takebackRequest).toBeUndefined();
+    });
+
+    it('leaves a move made after the acceptance alone', async () => {
+      await submitMove(
+        db,
+        'ABC123',
+        { role: 'black', clientId: 'guest', ply: 1 },
+        { moves: ['e4', 'e5'], turn: 'w', takebackRequest: 'white' },
+      );
+
+      const undone = await takeBack(
+        db,
+        'ABC123',
+        { requester: 'white', ply: 1 },
+        start,
+      );
+
+      expect(undone).toBeFalse();
+      expect(db.game().moves).toEqual(['e4', 'e5']);
+    });
+
+    it('does nothing once the game has ended', async () => {
+      await finishGame(db, 'ABC123', {
+        winner: 'black',
+        reason: 'resignation',
+      });
+
+      const undone = await takeBack(
+        db,
+        'ABC123',
+        { requester: 'white', ply: 1 },
+        start,
+      );
+
+      expect(undone).toBeFalse();
+      expect(db.game().moves).toEqual(['e4']);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { Database, ref, runTransaction } from 'firebase/database';
+import { Role } from '../types/messages';
+import { GameDoc, PlayerSeat } from '../types/online';
+import { isStaleSeek } from './lobby';
+
+// The one RTDB call game writes need; faked in memory by the unit tests.
+// `update` may run several times and must stay pure; undefined aborts.
+export interface GameDatabase {
+  transact<T>(
+    path: string,
+    update: (current: T | null) => T | null | undefined,
+  ): Promise<{ committed: boolean; value: T | null }>;
+}
+
+export function firebaseGameDatabase(db: Database): GameDatabase {
+  return {
+    async transact<T>(
+      path: string,
+      update: (current: T | null) => T | null | undefined,
+    ) {
+      const result = await runTransaction(ref(db, path), (current) =>
+        update(current as T | null),
+      );
+      return { committed: result.committed, value: result.snapshot.val() };
+    },
+  };
+}
+
+export type SeatClaim =
+  | { role: Role }
+  | { error: 'not-found' }
+  | { error: 'full'; allowSpectators: boolean };
+
+export type MoveWrite = { ok: true } | { ok: false; error: string };
+
+// What the mover saw when making the move; the write only lands if it still holds
+export type MoveExpectation = {
+  role: Role;
+  clientId: string;
+  ply: number; // half-moves already played
+};
+
+// What the answering side saw when accepting a takeback
+export type TakebackExpectation = {
+  requester: Role;
+  ply: number; // half-moves played before the undo
+};
+
+export const MOVE_CONFLICT_TEXT =
+  'The game moved on before your move arrived; the board has been updated.';
+
+// Take a free seat atomically: black if the host holds white, else white.
+// `profile` (name, avatar, rating) goes into the seat, and refreshes it when
+// the tab already holds one.
+export async function claimSeat(
+  db: GameDatabase,
+  code: string,
+  clientId: string,
+  profile: Omit<PlayerSeat, 'id'> = {},
+): Promise<SeatClaim> {
+  let claimed = null as Role | null; // set by the last run of the update
+  const { value } = await db.transact<GameDoc>(`games/${code}`, (game) => {
+    claimed = null;
+    if (!game) return game; // not cached yet; RTDB retries with server data
+    const players = game.players ?? {};
+
+    // Rejoining from the same tab keeps its seat
+    if (players.white?.id === clientId) claimed = 'white';
+    else if (players.black?.id === clientId) claimed = 'black';
+    if (claimed) {
+      const seat = { ...players[claimed], ...profile, id: clientId };
+      if (JSON.stringify(seat) === JSON.stringify(players[claimed])) {
+        return undefined;
+      }
+      return { ...game, players: { ...players, [claimed]: seat } };
+    }
+
+    if (!players.white?.id) claimed = 'white';
+    else if (!players.black?.id) claimed = 'black';
+    else return undefined; // full
+
+    const seated = { ...players, [claimed]: { id: clientId, ...profile } };
+    const status =
+      game.status === 'ended'
+        ? 'ended'
+        : seated.white?.id && seated.black?.id
+          ? 'live'
+          : 'waiting';
+    // A lobby seek is only listed until its game fills
+    const { seek, ...rest } = game;
+    const kept = status === 'live' ? rest : game;
+    return { ...kept, players: seated, status };
+  });
+
+  if (!value) return { error: 'not-found' };
+  if (claimed) return { role: claimed };
+  return { error: 'full', allowSpectators: value.allowSpectators !== false };
+}
+
+// Give a seat back, but only if this tab still holds it
+export async function releaseSeat(
+  db: GameDatabase,
+  code: string,
+  role: Role,
+  clientId: string,
+): Promise<void> {
+  await db.transact<GameDoc>(`games/${code}`, (game) => {
+    if (!game) return game;
+    const players = game.players ?? {};
+    if (players[role]?.id !== clientId) return undefined;
+    return {
+      ...game,
+      players: { ...players, [role]: null },
+      status: game.status === 'ended' ? 'ended' : 'waiting',
+    };
+  });
+}
+
+// Withdraw a lobby seek: delete the game, but only while its creator is
+// still alone in it
+export async function cancelSeek(
+  db: GameDatabase,
+  code: string,
+  clientId: string,
+): Promise<void> {
+  await db.transact<GameDoc>(`games/${code}`, (game) => {
+    if (!game) return game;
+    const { white, black } = game.players ?? {};
+    const alone =
+      (white?.id === clientId && !black?.id) ||
+      (black?.id === clientId && !white?.id);
+    return game.status === 'waiting' && alone ? null : undefined;
+  });
+}
+
+// Delete a seek nobody will answer; anyone in the lobby may do this
+export async function dropStaleSeek(
+  db: GameDatabase,
+  code: string,
+  now: number,
+): Promise<void> {
+  await db.transact<GameDoc>(`games/${code}`, (game) => {
+    if (!game) return game;
+    return isStaleSeek(game, now) ? null : undefined;
+  });
+}
+
+// Write a result while the game is still undecided; false if another result
+// (a flag, the opponent's resignation) landed first and was kept
+export async function finishGame(
+  db: GameDatabase,
+  code: string,
+  ending: Partial<GameDoc>,
+): Promise<boolean> {
+  let finished = false;
+  await db.transact<GameDoc>(`games/${code}`, (game) => {
+    finished = false;
+    if (!game) return game;
+    if (game.status === 'ended') return undefined;
+    finished = true;
+    return { ...game, ...ending, status: 'ended' };
+  });
+  return finished;
+}
+
+// Undo moves on top of exactly the position the takeback was accepted in;
+// false if a move, a result, a departure or a withdrawn request got there first
+export async function takeBack(
+  db: GameDatabase,
+  code: string,
+  expected: TakebackExpectation,
+  next: Partial<GameDoc>,
+): Promise<boolean> {
+  let undone = false;
+  await db.transact<GameDoc>(`games/${code}`, (game) => {
+    undone = false;
+    if (!game) return game;
+    if (
+      game.status !== 'live' ||
+      (game.moves?.length ?? 0) !== expected.ply ||
+      game.takebackRequest !== expected.requester
+    ) {
+      return undefined;
+    }
+    undone = true;
+    return { ...game, ...next };
+  });
+  return undone;
+}
+
+// Apply a move on top of exactly the position it was made in
+export async function submitMove(
+  db: GameDatabase,
+  code: string,
+  expected: MoveExpectation,
+  next: Partial<GameDoc>,
+): Promise<MoveWrite> {
+  let error = '';
+  const path = `games/${code}`;
+  const { committed, value } = await db.transact<GameDoc>(path, (game) => {
+    error = '';
+    if (!game) return game;
+    if (game.status === 'ended') {
+      error = 'The game is already over.';
+    } else if (game.players?.[expected.role]?.id !== expected.clientId) {
+      error = 'You no longer hold this seat.';
+    } else if (
+      (game.moves?.length ?? 0) !== expected.ply ||
+      game.turn !== expected.role[0]
+    ) {
+      error = MOVE_CONFLICT_TEXT;
+    }
+    return error ? undefined : { ...game, ...next };
+  });
+
+  if (!value) return { ok: false, error: 'Game not found.' };
+  return committed && !error ? { ok: true } : { ok: false, error };
+}
@@ -0,0 +1,80 @@
+import { InjectionToken } from '@angular/core';
+import { environment } from '../../environments/environment';
+import { Role } from '../types/messages';
+import { ChatMessage, GameDoc, PlayerSeat, ServerTime } from '../types/online';
+import { FirebaseGameTransport } from './firebase-game-transport';
+import {
+  MoveExpectation,
+  MoveWrite,
+  SeatClaim,
+  TakebackExpectation,
+} from './game-transactions';
+import { LocalGameTransport } from './local-game-transport';
+
+export type Unsubscribe = () => void;
+
+// Everything the online screen needs from a backend; games live at games/{code}
+export interface GameTransport {
+  create(code: string, game: GameDoc): Promise<void>;
+  join(
+    code: string,
+    clientId: string,
+    profile?: Omit<PlayerSeat, 'id'>,
+  ): Promise<SeatClaim>;
+  leave(code: string, role: Role, clientId: string): Promise<void>;
+  submitMove(
+    code: string,
+    expected: MoveExpectation,
+    next: Partial<GameDoc>,
+  ): Promise<MoveWrite>;
+  // Only lands while the game is undecided; false if it had already ended
+  endGame(code: string, ending: Partial<GameDoc>): Promise<boolean>;
+  // Only lands on the position the takeback was accepted in
+  takeBack(
+    code: string,
+    expected: TakebackExpectation,
+    next: Partial<GameDoc>,
+  ): Promise<boolean>;
+  subscribe(code: string, onGame: (game: GameDoc | null) => void): Unsubscribe;
+
+  // Lobby: every game with status 'waiting', keyed by code, and seek cleanup
+  subscribeWaiting(
+    onGames: (games: Record<string, GameDoc>) => void,
+  ): Unsubscribe;
+  cancelSeek(code: string, clientId: string): Promise<void>;
+  dropStaleSeek(code: string, now: number): Promise<void>;
+
+  // One-off reads and small writes (offers, results, takebacks)
+  fetch(code: string): Promise<GameDoc | null>;
+  update(code: string, patch: Partial<GameDoc>): Promise<void>;
+
+  // Append to games/{code}/messages under a new, time-ordered key
+  addMessage(code: string, message: ChatMessage): Promise<void>;
+
+  // A child of the game (e.g. "presence/white") that switches to `offline`
+  // when this client drops; null removes the entry instead
+  attachPresence(
+    code: string,
+    key: string,
+    online: unknown,
+    offline: unknown | null,
+  ): Promise<void>;
+  detachPresence(code: string, key: string, last: unknown | null): Promise<void>;
+
+  // Connection state and the backend's clock
+  onConnected(listener: (connected: boolean) => void): Unsubscribe;
+  onServerOffset(listener: (offsetMs: number) => void): Unsubscribe;
+  serverTimestamp(): ServerTime; // placeholder the backend swaps for its own time
+}
+
+// Picked by `environment.transport`; tests provide their own
+export const GAME_TRANSPORT = new InjectionToken<GameTransport>(
+  'GAME_TRANSPORT',
+  {
+    providedIn: 'root',
+    factory: () =>
+      environment.transport === 'local'
+        ? new LocalGameTransport()
+        : new FirebaseGameTransport(environment.firebase),
+  },
+);
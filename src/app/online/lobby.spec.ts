@@ -0,0 +1,106 @@
+import { GameDoc, SeekDoc } from '../types/online';
+import {
+  findPairing,
+  isStaleSeek,
+  openSeeks,
+  SEEK_TTL_MS,
+  seatFor,
+  staleSeekCodes,
+} from './lobby';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const NOW = 1_000_000_000;
+const BLITZ = { initial: 180, increment: 2 };
+
+function seekGame(
+  host: string,
+  seek: Partial<SeekDoc> = {},
+  extra: Partial<GameDoc> = {},
+): GameDoc {
+  return {
+    fen: START,
+    turn: 'w',
+    status: 'waiting',
+    players: { white: { id: host }, black: null },
+    timeControl: BLITZ,
+    seek: { name: host, color: 'white', createdAt: NOW - 1000, ...seek },
+    ...extra,
+  };
+}
+
+describe('lobby', () => {
+  it('lists open seeks oldest first, without private or full games', () => {
+    const games: Record<string, GameDoc> = {
+      NEWER1: seekGame('ann', { createdAt: NOW - 100 }),
+      OLDER1: seekGame('bob', { createdAt: NOW - 5000 }),
+      SHARED: { ...seekGame('cat'), seek: undefined }, // code-only game
+      PLAYIN: seekGame('dan', {}, {
+        players: { white: { id: 'dan' }, black: { id: 'eve' } },
+      }),
+    };
+
+    const seeks = openSeeks(games, NOW);
+    expect(seeks.map((s) => s.code)).toEqual(['OLDER1', 'NEWER1']);
+    expect(seeks[0].hostRole).toBe('white');
+  });
+
+  it('carries whether the game is rated', () => {
+    const seeks = openSeeks(
+      {
+        RATED1: seekGame('ann', {}, { rated: true }),
+        CASUAL: seekGame('bob', { createdAt: NOW - 500 }),
+      },
+      NOW,
+    );
+
+    expect(seeks.map((s) => [s.code, s.rated])).toEqual([
+      ['RATED1', true],
+      ['CASUAL', false],
+    ]);
+  });
+
+  it('treats expired and abandoned seeks as stale', () => {
+    const expired = seekGame('ann', { createdAt: NOW - SEEK_TTL_MS - 1 });
+    const gone = seekGame('bob', {}, {
+      presence: { white: { online: false, lastSeen: NOW - 60_000 } },
+    });
+    const blip = seekGame('cat', {}, {
+      presence: { white: { online: false, lastSeen: NOW - 1000 } },
+    });
+
+    expect(isStaleSeek(expired, NOW)).toBeTrue();
+    expect(isStaleSeek(gone, NOW)).toBeTrue();
+    expect(isStaleSeek(blip, NOW)).toBeFalse(); // may still reconnect
+    expect(staleSeekCodes({ A: expired, B: blip }, NOW)).toEqual(['A']);
+  });
+
+  it('pairs compatible clocks and colours, never with yourself', () => {
+    const seeks = openSeeks(
+      {
+        MINE01: seekGame('me', { createdAt: NOW - 9000 }),
+        RAPID1: seekGame('ann', {}, {
+          timeControl: { initial: 600, increment: 0 },
+        }),
+        WHITE1: seekGame('bob', { createdAt: NOW - 2000 }),
+        BLACK1: {
+          ...seekGame('cat', { color: 'black' }),
+          players: { white: null, black: { id: 'cat' } },
+        },
+      },
+      NOW,
+    );
+
+    const wantWhite = { timeControl: BLITZ, color: 'white' as const };
+    expect(findPairing(seeks, wantWhite, 'me')?.code).toBe('BLACK1');
+    const anyColor = { timeControl: BLITZ, color: 'random' as const };
+    expect(findPairing(seeks, anyColor, 'me')?.code).toBe('WHITE1');
+    expect(findPairing(seeks, { ...anyColor, timeControl: null }, 'me'))
+      .toBeNull();
+  });
+
+  it('resolves a random colour preference to a seat', () => {
+    expect(seatFor('black')).toBe('black');
+    expect(seatFor('random', () => 0.2)).toBe('white');
+    expect(seatFor('random', () => 0.7)).toBe('black');
+  });
+});
@@ -0,0 +1,130 @@
+import { TimeControl } from '../types/clock';
+import { Role } from '../types/messages';
+import { GameDoc, SeekColor, SeekDoc } from '../types/online';
+import { serverMs } from './server-time';
+
+export const SEEK_TTL_MS = 30 * 60_000; // unanswered seeks expire
+const OFFLINE_GRACE_MS = 20_000; // a creator can drop and reconnect this long
+
+// An open seek as the lobby lists it
+export interface OpenSeek {
+  code: string;
+  seek: SeekDoc;
+  hostId: string;
+  hostRole: Role; // seat the creator holds
+  hostRating: number | null;
+  timeControl: TimeControl | null;
+  rated: boolean; // from the game doc, so the lobby never claims otherwise
+}
+
+// What a player is looking for, to compare with open seeks
+export interface SeekWish {
+  timeControl: TimeControl | null;
+  color: SeekColor;
+}
+
+// Passed along when the lobby sends a player into their game
+export interface LobbyHandoff {
+  code: string;
+  clientId: string; // holds the seat already
+}
+
+// 6-char shareable room code
+export function newGameCode(): string {
+  return Math.random().toString(36).slice(2, 8).toUpperCase();
+}
+
+// Identity of one player's tab in games/{code}/players
+export function newClientId(): string {
+  return (
+    crypto?.randomUUID?.() ??
+    Math.random().toString(36).slice(2) + Date.now().toString(36)
+  );
+}
+
+// The creator's seat for a colour preference
+export function seatFor(color: SeekColor, random = Math.random): Role {
+  if (color !== 'random') return color;
+  return random() < 0.5 ? 'white' : 'black';
+}
+
+// Waiting games with one seat taken, oldest first; stale ones are left out
+export function openSeeks(
+  games: Record<string, GameDoc>,
+  now: number,
+): OpenSeek[] {
+  const seeks: OpenSeek[] = [];
+  for (const code of Object.keys(games)) {
+    const game = games[code];
+    const host = seekHost(game);
+    if (!game.seek || !host || isStaleSeek(game, now)) continue;
+    seeks.push({
+      code,
+      seek: game.seek,
+      hostId: host.id,
+      hostRole: host.role,
+      hostRating: game.players?.[host.role]?.rating ?? null,
+      timeControl: game.timeControl ?? null,
+      rated: game.rated === true,
+    });
+  }
+  return seeks.sort(
+    (a, b) =>
+      serverMs(a.seek.createdAt, now) - serverMs(b.seek.createdAt, now) ||
+      a.code.localeCompare(b.code),
+  );
+}
+
+// Codes of waiting seeks nobody will answer any more
+export function staleSeekCodes(
+  games: Record<string, GameDoc>,
+  now: number,
+): string[] {
+  return Object.keys(games).filter((code) => isStaleSeek(games[code], now));
+}
+
+// A seek still waiting whose creator has gone, or that waited too long
+export function isStaleSeek(game: GameDoc, now: number): boolean {
+  const host = seekHost(game);
+  if (!game.seek || !host) return false;
+  if (now - serverMs(game.seek.createdAt, now) > SEEK_TTL_MS) return true;
+  const presence = game.presence?.[host.role];
+  return (
+    presence?.online === false &&
+    now - serverMs(presence.lastSeen, now) > OFFLINE_GRACE_MS
+  );
+}
+
+// Same clock, and colours that don't clash
+export function isCompatible(seek: OpenSeek, wish: SeekWish): boolean {
+  const a = seek.timeControl;
+  const b = wish.timeControl;
+  const sameClock =
+    a === b ||
+    (!!a && !!b && a.initial === b.initial && a.increment === b.increment);
+  const wanted = seek.seek.color;
+  const colorsFit =
+    wanted === 'random' || wish.color === 'random' || wanted !== wish.color;
+  return sameClock && colorsFit;
+}
+
+// The oldest compatible seek by someone else, for "quick pair"
+export function findPairing(
+  seeks: OpenSeek[],
+  wish: SeekWish,
+  clientId: string,
+): OpenSeek | null {
+  return (
+    seeks.find((s) => s.hostId !== clientId && isCompatible(s, wish)) ?? null
+  );
+}
+
+// Creator of a seek still waiting for an opponent
+function seekHost(game: GameDoc): { id: string; role: Role } | null {
+  if (game.status !== 'waiting') return null;
+  const white = game.players?.white?.id;
+  const black = game.players?.black?.id;
+  if (white && !black) return { id: white, role: 'white' };
+  if (black && !white) return { id: black, role: 'black' };
+  return null;
+}
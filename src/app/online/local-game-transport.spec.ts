@@ -0,0 +1,108 @@
+import { GameDoc } from '../types/online';
+import { LocalGameTransport } from './local-game-transport';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+function newGame(hostId: string): GameDoc {
+  return {
+    fen: START,
+    turn: 'w',
+    status: 'waiting',
+    players: { white: { id: hostId }, black: null },
+  };
+}
+
+// Let BroadcastChannel deliveries and timers run
+function settle(ms = 20): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('LocalGameTransport', () => {
+  let channel: string;
+
+  beforeEach(() => {
+    channel = `test-games-${Math.random().toString(36).slice(2)}`;
+  });
+
+  it('plays a two-player game through one backend', async () => {
+    const transport = new LocalGameTransport(channel);
+    const seen: (GameDoc | null)[] = [];
+    const unsubscribe = transport.subscribe('ROOM01', (g) => seen.push(g));
+
+    await transport.create('ROOM01', newGame('host'));
+    expect(await transport.join('ROOM01', 'guest')).toEqual({ role: 'black' });
+
+    const written = await transport.submitMove(
+      'ROOM01',
+      { role: 'white', clientId: 'host', ply: 0 },
+      { fen: AFTER_E4, moves: ['e4'], turn: 'b', status: 'live' },
+    );
+
+    expect(written).toEqual({ ok: true });
+    expect(seen[seen.length - 1]?.moves).toEqual(['e4']);
+    expect(seen[seen.length - 1]?.status).toBe('live');
+    unsubscribe();
+  });
+
+  it('mirrors games to another tab over BroadcastChannel', async () => {
+    const hostTab = new LocalGameTransport(channel);
+    const guestTab = new LocalGameTransport(channel);
+    await hostTab.create('ROOM02', newGame('host'));
+    await settle();
+
+    expect(await guestTab.join('ROOM02', 'guest')).toEqual({ role: 'black' });
+    await settle();
+
+    const game = await hostTab.fetch('ROOM02');
+    expect(game?.players?.black).toEqual({ id: 'guest' });
+  });
+
+  it('fetches a game created before this tab opened', async () => {
+    const hostTab = new LocalGameTransport(channel);
+    await hostTab.create('ROOM03', newGame('host'));
+    await settle();
+
+    const lateTab = new LocalGameTransport(channel);
+    const game = await lateTab.fetch('ROOM03');
+
+    expect(game?.players?.white).toEqual({ id: 'host' });
+  });
+
+  it('reports unknown codes', async () => {
+    const transport = new LocalGameTransport(channel);
+
+    expect(await transport.fetch('NOPE00')).toBeNull();
+    expect(await transport.join('NOPE00', 'guest')).toEqual({
+      error: 'not-found',
+    });
+  });
+
+  it('adds and removes presence entries', async () => {
+    const transport = new LocalGameTransport(channel);
+    await transport.create('ROOM04', newGame('host'));
+
+    await transport.attachPresence('ROOM04', 'spectators/fan', true, null);
+    expect((await transport.fetch('ROOM04'))?.spectators).toEqual({
+      fan: true,
+    });
+
+    await transport.detachPresence('ROOM04', 'spectators/fan', null);
+    const game = await transport.fetch('ROOM04');
+    expect(game?.spectators?.['fan']).toBeUndefined();
+  });
+
+  it('lists waiting games for the lobby and drops withdrawn seeks', async () => {
+    const transport = new LocalGameTransport(channel);
+    let waiting: Record<string, GameDoc> = {};
+    const unsubscribe = transport.subscribeWaiting((g) => (waiting = g));
+    await transport.create('ROOM05', newGame('host'));
+    expect(Object.keys(waiting)).toEqual(['ROOM05']);
+
+    await transport.cancelSeek('ROOM05', 'someone-else');
+    expect(Object.keys(waiting)).toEqual(['ROOM05']);
+    await transport.cancelSeek('ROOM05', 'host');
+    expect(waiting).toEqual({});
+    unsubscribe();
+  });
+});
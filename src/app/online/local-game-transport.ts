@@ -0,0 +1,279 @@
+import { Role } from '../types/messages';
+import { ChatMessage, GameDoc, PlayerSeat } from '../types/online';
+import {
+  cancelSeek,
+  claimSeat,
+  dropStaleSeek,
+  finishGame,
+  GameDatabase,
+  MoveExpectation,
+  releaseSeat,
+  submitMove,
+  takeBack,
+  TakebackExpectation,
+} from './game-transactions';
+import { GameTransport, Unsubscribe } from './game-transport';
+
+// Tab-to-tab traffic: a full game after every write, or a request for one
+type LocalMessage =
+  | { type: 'game'; code: string; game: GameDoc | null }
+  | { type: 'request'; code: string }
+  | { type: 'request-waiting' };
+
+const CHANNEL = 'pencil-chess-games';
+const PEER_WAIT_MS = 200; // how long to wait for another tab to answer
+
+// No-network backend: games live in memory and are mirrored to other tabs of
+// this browser over BroadcastChannel. Good for local two-tab play and tests.
+export class LocalGameTransport implements GameTransport, GameDatabase {
+  private games = new Map<string, GameDoc>();
+  private listeners = new Map<string, Set<(game: GameDoc | null) => void>>();
+  private waitingListeners = new Set<
+    (games: Record<string, GameDoc>) => void
+  >();
+  private channel: BroadcastChannel | null = null;
+  private pending = new Map<string, () => void>(); // codes asked of peers
+  private onLeave = new Map<string, { code: string; value: unknown }>();
+
+  constructor(channelName = CHANNEL) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(channelName);
+      this.channel.onmessage = ({ data }: MessageEvent<LocalMessage>) =>
+        this.onPeerMessage(data);
+    }
+    // Closing the tab is this backend's "disconnect"
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.runOnLeave());
+    }
+  }
+
+  async create(code: string, game: GameDoc): Promise<void> {
+    this.write(code, game);
+  }
+
+  async join(
+    code: string,
+    clientId: string,
+    profile?: Omit<PlayerSeat, 'id'>,
+  ) {
+    await this.ensureLoaded(code);
+    return claimSeat(this, code, clientId, profile);
+  }
+
+  async leave(code: string, role: Role, clientId: string): Promise<void> {
+    await this.ensureLoaded(code);
+    await releaseSeat(this, code, role, clientId);
+  }
+
+  async submitMove(
+    code: string,
+    expected: MoveExpectation,
+    next: Partial<GameDoc>,
+  ) {
+    await this.ensureLoaded(code);
+    return submitMove(this, code, expected, next);
+  }
+
+  async endGame(code: string, ending: Partial<GameDoc>): Promise<boolean> {
+    await this.ensureLoaded(code);
+    return finishGame(this, code, ending);
+  }
+
+  async takeBack(
+    code: string,
+    expected: TakebackExpectation,
+    next: Partial<GameDoc>,
+  ): Promise<boolean> {
+    await this.ensureLoaded(code);
+    return takeBack(this, code, expected, next);
+  }
+
+  subscribe(code: string, onGame: (game: GameDoc | null) => void): Unsubscribe {
+    const set = this.listeners.get(code) ?? new Set();
+    set.add(onGame);
+    this.listeners.set(code, set);
+    // Like RTDB, deliver the current value first
+    void this.ensureLoaded(code).then(() => {
+      if (set.has(onGame)) onGame(clone(this.games.get(code) ?? null));
+    });
+    return () => set.delete(onGame);
+  }
+
+  subscribeWaiting(
+    onGames: (games: Record<string, GameDoc>) => void,
+  ): Unsubscribe {
+    this.waitingListeners.add(onGames);
+    queueMicrotask(() => {
+      if (this.waitingListeners.has(onGames)) onGames(this.waitingGames());
+    });
+    this.post({ type: 'request-waiting' }); // games made in other tabs
+    return () => this.waitingListeners.delete(onGames);
+  }
+
+  async cancelSeek(code: string, clientId: string): Promise<void> {
+    await this.ensureLoaded(code);
+    await cancelSeek(this, code, clientId);
+  }
+
+  async dropStaleSeek(code: string, now: number): Promise<void> {
+    await this.ensureLoaded(code);
+    await dropStaleSeek(this, code, now);
+  }
+
+  async fetch(code: string): Promise<GameDoc | null> {
+    await this.ensureLoaded(code);
+    return clone(this.games.get(code) ?? null);
+  }
+
+  async update(code: string, patch: Partial<GameDoc>): Promise<void> {
+    await this.ensureLoaded(code);
+    const game = this.games.get(code);
+    if (game) this.write(code, { ...game, ...patch });
+  }
+
+  async addMessage(code: string, message: ChatMessage): Promise<void> {
+    await this.ensureLoaded(code);
+    this.writeChild(code, `messages/${messageKey()}`, message);
+  }
+
+  async attachPresence(
+    code: string,
+    key: string,
+    online: unknown,
+    offline: unknown | null,
+  ): Promise<void> {
+    await this.ensureLoaded(code);
+    this.onLeave.set(`${code}/${key}`, { code, value: offline });
+    this.writeChild(code, key, online);
+  }
+
+  async detachPresence(
+    code: string,
+    key: string,
+    last: unknown | null,
+  ): Promise<void> {
+    this.onLeave.delete(`${code}/${key}`);
+    this.writeChild(code, key, last);
+  }
+
+  onConnected(listener: (connected: boolean) => void): Unsubscribe {
+    queueMicrotask(() => listener(true)); // always "connected"
+    return () => {};
+  }
+
+  onServerOffset(listener: (offsetMs: number) => void): Unsubscribe {
+    queueMicrotask(() => listener(0)); // every tab shares this clock
+    return () => {};
+  }
+
+  serverTimestamp(): number {
+    return Date.now();
+  }
+
+  // Synchronous read-modify-write, so it can't interleave within this tab
+  async transact<T>(
+    path: string,
+    update: (current: T | null) => T | null | undefined,
+  ): Promise<{ committed: boolean; value: T | null }> {
+    const code = path.replace(/^games\//, '');
+    const current = clone((this.games.get(code) ?? null) as T | null);
+    const next = update(current);
+    if (next === undefined) return { committed: false, value: current };
+    this.write(code, next as GameDoc | null);
+    return { committed: true, value: clone(next) };
+  }
+
+  // Store, notify this tab's listeners, and mirror to the other tabs
+  private write(code: string, game: GameDoc | null, fromPeer = false): void {
+    const stored = clone(game);
+    if (stored) this.games.set(code, stored);
+    else this.games.delete(code);
+    for (const listener of this.listeners.get(code) ?? []) {
+      listener(clone(stored));
+    }
+    if (this.waitingListeners.size) {
+      const waiting = this.waitingGames();
+      for (const listener of this.waitingListeners) listener(waiting);
+    }
+    if (!fromPeer) this.post({ type: 'game', code, game: stored });
+  }
+
+  // Set or (with null) remove one nested entry, e.g. "spectators/abc"
+  private writeChild(code: string, key: string, value: unknown): void {
+    const game = clone(this.games.get(code) ?? null);
+    if (!game) return;
+    const parts = key.split('/');
+    let node = game as unknown as Record<string, unknown>;
+    for (const part of parts.slice(0, -1)) {
+      node[part] = (node[part] as Record<string, unknown>) ?? {};
+      node = node[part] as Record<string, unknown>;
+    }
+    const last = parts[parts.length - 1];
+    if (value === null) delete node[last];
+    else node[last] = value;
+    this.write(code, game);
+  }
+
+  private runOnLeave(): void {
+    for (const [path, { code, value }] of this.onLeave) {
+      this.writeChild(code, path.slice(code.length + 1), value);
+    }
+    this.onLeave.clear();
+  }
+
+  // A game created in another tab: ask for it once and wait briefly
+  private ensureLoaded(code: string): Promise<void> {
+    if (this.games.has(code) || !this.channel) return Promise.resolve();
+    return new Promise<void>((resolve) => {
+      const done = () => {
+        this.pending.delete(code);
+        resolve();
+      };
+      this.pending.set(code, done);
+      this.post({ type: 'request', code });
+      setTimeout(done, PEER_WAIT_MS);
+    });
+  }
+
+  private waitingGames(): Record<string, GameDoc> {
+    const waiting: Record<string, GameDoc> = {};
+    for (const [code, game] of this.games) {
+      if (game.status === 'waiting') waiting[code] = clone(game);
+    }
+    return waiting;
+  }
+
+  private onPeerMessage(msg: LocalMessage): void {
+    if (msg.type === 'request-waiting') {
+      for (const [code, game] of this.games) {
+        if (game.status === 'waiting') this.post({ type: 'game', code, game });
+      }
+      return;
+    }
+    if (msg.type === 'request') {
+      const game = this.games.get(msg.code);
+      if (game) this.post({ type: 'game', code: msg.code, game });
+      return;
+    }
+    this.write(msg.code, msg.game, true);
+    this.pending.get(msg.code)?.();
+  }
+
+  private post(msg: LocalMessage): void {
+    this.channel?.postMessage(msg);
+  }
+}
+
+// Sorts in sending order, like RTDB push keys
+function messageKey(): string {
+  const sent = Date.now().toString(36).padStart(10, '0');
+  return `${sent}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Copy the way RTDB stores values: nulls inside objects are dropped
+function clone<T>(value: T): T {
+  if (value === null || value === undefined) return value;
+  return JSON.parse(
+    JSON.stringify(value, (key, v) => (key && v === null ? undefined : v)),
+  );
+}
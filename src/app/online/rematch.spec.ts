@@ -0,0 +1,85 @@
+import { GameDoc } from '../types/online';
+import { HORDE_FEN } from '../variants/variants';
+import { addToSeries, formatPoints, rematchGame, seriesScore } from './rematch';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+function finishedGame(extra: Partial<GameDoc> = {}): GameDoc {
+  return {
+    fen: START,
+    startFen: START,
+    moves: ['f3', 'e5', 'g4', 'Qh4#'],
+    turn: 'w',
+    status: 'ended',
+    players: { white: { id: 'host' }, black: { id: 'guest' } },
+    timeControl: { initial: 300, increment: 2 },
+    ...extra,
+  };
+}
+
+describe('rematch', () => {
+  it('swaps colours and starts the next game live', () => {
+    const next = rematchGame(
+      finishedGame(),
+      { winner: 'black', reason: 'checkmate' },
+      'ABC123',
+    );
+
+    expect(next.players).toEqual({
+      white: { id: 'guest' },
+      black: { id: 'host' },
+    });
+    expect(next.status).toBe('live');
+    expect(next.moves).toEqual([]);
+    expect(next.rematchOf).toBe('ABC123');
+    expect(next.timeControl).toEqual({ initial: 300, increment: 2 });
+  });
+
+  it('carries the series score by player, not by colour', () => {
+    const players = { white: { id: 'host' }, black: { id: 'guest' } };
+    let series = addToSeries(null, players, {
+      winner: 'black',
+      reason: 'checkmate',
+    });
+    series = addToSeries(
+      series,
+      { white: { id: 'guest' }, black: { id: 'host' } },
+      { winner: null, reason: 'agreement' },
+    );
+
+    expect(series).toEqual({ games: 2, points: { host: 0.5, guest: 1.5 } });
+    expect(seriesScore(series, players, null)).toEqual({ white: 0.5, black: 1.5 });
+  });
+
+  it('keeps the variant and its start position', () => {
+    const next = rematchGame(
+      finishedGame({
+        fen: HORDE_FEN,
+        startFen: HORDE_FEN,
+        moves: [],
+        variant: 'horde',
+      }),
+      { winner: 'white', reason: 'resignation' },
+      'ABC123',
+    );
+
+    expect(next.variant).toBe('horde');
+    expect(next.fen).toBe(HORDE_FEN);
+  });
+
+  it('leaves aborted games out of the series', () => {
+    const series = addToSeries(
+      { games: 1, points: { host: 1, guest: 0 } },
+      finishedGame().players!,
+      { winner: null, reason: 'aborted' },
+    );
+
+    expect(series).toEqual({ games: 1, points: { host: 1, guest: 0 } });
+  });
+
+  it('writes half points the way players read them', () => {
+    expect(formatPoints(0)).toBe('0');
+    expect(formatPoints(0.5)).toBe('½');
+    expect(formatPoints(2.5)).toBe('2½');
+  });
+});
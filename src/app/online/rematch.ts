@@ -0,0 +1,82 @@
+import { createClock } from '../chess/clock';
+import { opponentOf } from '../chess/game-result';
+import { GameResult, Role } from '../types/messages';
+import { GameDoc, PlayersDoc, SeriesDoc } from '../types/online';
+import { variantChess } from '../variants/variants';
+
+// Add a finished game to the series; aborted games don't count
+export function addToSeries(
+  series: SeriesDoc | null | undefined,
+  players: PlayersDoc,
+  result: GameResult,
+): SeriesDoc {
+  const next: SeriesDoc = {
+    games: series?.games ?? 0,
+    points: { ...(series?.points ?? {}) },
+  };
+  if (result.reason === 'aborted') return next;
+
+  next.games += 1;
+  for (const side of ['white', 'black'] as Role[]) {
+    const id = players[side]?.id;
+    if (!id) continue;
+    const earned = result.winner === null ? 0.5 : result.winner === side ? 1 : 0;
+    next.points[id] = (next.points[id] ?? 0) + earned;
+  }
+  return next;
+}
+
+// Series points by the colours players hold in this game, this game included
+export function seriesScore(
+  series: SeriesDoc | null | undefined,
+  players: PlayersDoc,
+  result: GameResult | null,
+): Record<Role, number> {
+  const total = result ? addToSeries(series, players, result) : series;
+  const pointsOf = (side: Role) => {
+    const id = players[side]?.id;
+    return (id && total?.points[id]) || 0;
+  };
+  return { white: pointsOf('white'), black: pointsOf('black') };
+}
+
+// "1½", "½", "2"
+export function formatPoints(points: number): string {
+  const whole = Math.floor(points);
+  const half = points - whole >= 0.5 ? '½' : '';
+  return whole || !half ? `${whole}${half}` : half;
+}
+
+// The next game of the series: same start, variant and time control, colours
+// swapped and both seats already taken, so it starts live
+export function rematchGame(
+  finished: GameDoc,
+  result: GameResult,
+  finishedCode: string,
+): GameDoc {
+  const variant = finished.variant ?? 'standard';
+  const start = variantChess(variant, finished.startFen);
+  const players = finished.players ?? {};
+  const swapped: PlayersDoc = {};
+  for (const side of ['white', 'black'] as Role[]) {
+    const seat = players[opponentOf(side)];
+    swapped[side] = seat?.id ? { ...seat } : null; // ratings refresh on entry
+  }
+
+  return {
+    fen: start.fen(),
+    pgn: start.pgn(),
+    startFen: start.fen(),
+    moves: [],
+    turn: start.turn(),
+    status: swapped.white && swapped.black ? 'live' : 'waiting',
+    players: swapped,
+    timeControl: finished.timeControl ?? null,
+    clock: finished.timeControl ? createClock(finished.timeControl) : null,
+    allowSpectators: finished.allowSpectators !== false,
+    rated: finished.rated ?? false,
+    variant,
+    rematchOf: finishedCode,
+    series: addToSeries(finished.series, players, result),
+  };
+}
@@ -0,0 +1,28 @@
+import { serverMs, settledClock } from './server-time';
+
+// What RTDB's serverTimestamp() puts in a write
+const PLACEHOLDER = { '.sv': 'timestamp' };
+
+describe('server time', () => {
+  it('reads a stored time as it is', () => {
+    expect(serverMs(1_000, 5_000)).toBe(1_000);
+  });
+
+  it('counts a placeholder that has not been stamped yet as now', () => {
+    expect(serverMs(PLACEHOLDER, 5_000)).toBe(5_000);
+  });
+
+  it('settles a clock that was just pressed', () => {
+    const clock = settledClock(
+      { white: 60_000, black: 58_000, running: 'white', since: PLACEHOLDER },
+      5_000,
+    );
+
+    expect(clock).toEqual({
+      white: 60_000,
+      black: 58_000,
+      running: 'white',
+      since: 5_000,
+    });
+  });
+});
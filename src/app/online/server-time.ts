@@ -0,0 +1,13 @@
+import { ClockState } from '../types/clock';
+import { OnlineClock, ServerTime } from '../types/online';
+
+// Epoch ms of a server-clock field. Listeners normally see the backend's
+// estimate of the time, not the placeholder; one still pending counts as now.
+export function serverMs(time: ServerTime, now: number): number {
+  return typeof time === 'number' ? time : now;
+}
+
+// A stored clock with `since` as epoch ms, for the clock arithmetic
+export function settledClock(clock: OnlineClock, now: number): ClockState {
+  return { ...clock, since: serverMs(clock.since, now) };
+}
@@ -0,0 +1,43 @@
+import { Chess } from 'chess.js';
+import { buildEcoIndex, epdOf, findOpening, openingLabel } from './eco';
+import { ECO_TABLE_TSV } from './eco-table';
+
+const index = buildEcoIndex(ECO_TABLE_TSV);
+
+function play(...moves: string[]): Chess {
+  const chess = new Chess();
+  for (const move of moves) chess.move(move);
+  return chess;
+}
+
+describe('ECO openings', () => {
+  it('replays every bundled row', () => {
+    const rows = ECO_TABLE_TSV.trim().split('\n').length - 1; // minus header
+    expect(index.size).toBe(rows);
+  });
+
+  it('names the deepest known position', () => {
+    const najdorf = play(
+      ...['e4', 'c5', 'Nf3', 'd6', 'd4', 'cxd4', 'Nxd4', 'Nf6', 'Nc3', 'a6'],
+    );
+    expect(openingLabel(findOpening(najdorf, index)!)).toBe(
+      'B90 Sicilian Defense: Najdorf Variation',
+    );
+
+    // Still the Najdorf after leaving the book
+    najdorf.move('h3');
+    expect(findOpening(najdorf, index)?.eco).toBe('B90');
+    expect(findOpening(new Chess(), index)).toBeNull();
+  });
+
+  it('recognises transpositions', () => {
+    const viaNf3 = play('Nf3', 'Nf6', 'c4', 'e6', 'd4', 'Bb4+');
+    expect(findOpening(viaNf3, index)?.name).toBe('Bogo-Indian Defense');
+  });
+
+  it('ignores move counters in the key', () => {
+    expect(epdOf('8/8/8/8/8/8/8/K6k w - - 12 40')).toBe(
+      '8/8/8/8/8/8/8/K6k w - -',
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { Chess } from 'chess.js';
+import { Opening } from '../types/opening';
+
+// Position part of a FEN (board, side, castling, en passant); move counters
+// don't change which opening it is
+export function epdOf(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+// EPD -> opening for every row of an ECO table (eco, name, pgn columns).
+// When two rows reach the same position the later, more specific one wins.
+export function buildEcoIndex(tsv: string): Map<string, Opening> {
+  const index = new Map<string, Opening>();
+  for (const line of tsv.split(/\r?\n/)) {
+    const [eco, name, pgn] = line.split('\t');
+    if (!eco || !name || !pgn || eco === 'eco') continue;
+    const chess = new Chess();
+    try {
+      for (const token of pgn.split(/\s+/)) {
+        if (!/^\d+\.+$/.test(token)) chess.move(token);
+      }
+    } catch {
+      continue; // a row that doesn't replay names nothing
+    }
+    index.set(epdOf(chess.fen()), { eco, name });
+  }
+  return index;
+}
+
+// The opening of the last named position the game passed through, so it
+// stays named once play leaves the book
+export function findOpening(
+  chess: Chess,
+  index: Map<string, Opening>,
+): Opening | null {
+  const history = chess.history({ verbose: true });
+  for (let i = history.length - 1; i >= 0; i--) {
+    const opening = index.get(epdOf(history[i].after));
+    if (opening) return opening;
+  }
+  return null;
+}
+
+// "B90 Sicilian Defense: Najdorf Variation"
+export function openingLabel(opening: Opening): string {
+  return `${opening.eco} ${opening.name}`;
+}
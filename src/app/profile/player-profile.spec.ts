@@ -0,0 +1,65 @@
+import {
+  applyGameResult,
+  cleanName,
+  defaultProfile,
+  seatProfile,
+  updateElo,
+} from './player-profile';
+
+const WIN = { winner: 'white' as const, reason: 'checkmate' as const };
+const DRAW = { winner: null, reason: 'agreement' as const };
+
+describe('player profile', () => {
+  it('moves Elo by the surprise of the result', () => {
+    expect(updateElo(1500, 1500, 1)).toBe(1516);
+    expect(updateElo(1500, 1500, 0.5)).toBe(1500);
+    expect(updateElo(1500, 1900, 1)).toBe(1529); // upset pays more
+    expect(updateElo(1900, 1500, 1)).toBe(1903);
+  });
+
+  it('records every game but rates only rated ones', () => {
+    const base = defaultProfile();
+    const opponent = { id: 'them', rating: 1500 };
+
+    const casual = applyGameResult(base, {
+      code: 'AAA111',
+      result: WIN,
+      role: 'white',
+      opponent,
+      rated: false,
+      at: 1,
+    });
+    expect(casual.record).toEqual({ wins: 1, losses: 0, draws: 0 });
+    expect(casual.rating).toBe(1500);
+    expect(casual.history).toEqual([]);
+
+    const rated = applyGameResult(casual, {
+      code: 'BBB222',
+      result: WIN,
+      role: 'black',
+      opponent,
+      rated: true,
+      at: 2,
+    });
+    expect(rated.record).toEqual({ wins: 1, losses: 1, draws: 0 });
+    expect(rated.history).toEqual([{ at: 2, rating: 1484, code: 'BBB222' }]);
+  });
+
+  it('leaves the rating alone when the opponent has none', () => {
+    const after = applyGameResult(defaultProfile(), {
+      code: 'CCC333',
+      result: DRAW,
+      role: 'white',
+      opponent: { id: 'old-client' },
+      rated: true,
+      at: 1,
+    });
+    expect(after.record.draws).toBe(1);
+    expect(after.history.length).toBe(0);
+  });
+
+  it('shows only what the player set in their seat', () => {
+    expect(seatProfile(defaultProfile())).toEqual({ rating: 1500 });
+    expect(cleanName('  Magnus   the\tGreat  ')).toBe('Magnus the Great');
+  });
+});
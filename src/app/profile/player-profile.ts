@@ -0,0 +1,98 @@
+import { opponentOf } from '../chess/game-result';
+import { GameResult, Role } from '../types/messages';
+import { PlayersDoc, PlayerSeat } from '../types/online';
+import { PlayerProfile } from '../types/profile';
+
+export const START_RATING = 1500;
+const RATING_K = 32;
+const MAX_HISTORY = 200; // rating points kept for the chart
+const MAX_NAME_LENGTH = 20;
+
+export const AVATARS = ['♔', '♕', '♖', '♗', '♘', '♙', '🦉', '🐺', '🦊', '🐢'];
+
+export function defaultProfile(): PlayerProfile {
+  return {
+    name: '',
+    avatar: '',
+    rating: START_RATING,
+    record: { wins: 0, losses: 0, draws: 0 },
+    history: [],
+  };
+}
+
+// Elo update for one game; `score` is 1, ½ or 0 for the player
+export function updateElo(
+  rating: number,
+  opponentRating: number,
+  score: number,
+): number {
+  const expected = 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+  return Math.round(rating + RATING_K * (score - expected));
+}
+
+// Points `role` earned from a result
+export function scoreFor(result: GameResult, role: Role): number {
+  if (result.winner === null) return 0.5;
+  return result.winner === role ? 1 : 0;
+}
+
+// The profile after a finished online game: the record always counts it,
+// the rating only moves when the game was rated and the opponent's rating
+// is known
+export function applyGameResult(
+  profile: PlayerProfile,
+  game: {
+    code: string;
+    result: GameResult;
+    role: Role;
+    opponent: PlayerSeat | null | undefined;
+    rated: boolean;
+    at: number;
+  },
+): PlayerProfile {
+  const score = scoreFor(game.result, game.role);
+  const record = { ...profile.record };
+  if (score === 1) record.wins++;
+  else if (score === 0) record.losses++;
+  else record.draws++;
+
+  const opponentRating = game.opponent?.rating;
+  if (!game.rated || opponentRating === undefined) {
+    return { ...profile, record };
+  }
+  const rating = updateElo(profile.rating, opponentRating, score);
+  const history = [
+    ...profile.history,
+    { at: game.at, rating, code: game.code },
+  ].slice(-MAX_HISTORY);
+  return { ...profile, record, rating, history };
+}
+
+// What the other side sees in this player's seat
+export function seatProfile(profile: PlayerProfile): Omit<PlayerSeat, 'id'> {
+  return {
+    ...(profile.name ? { name: profile.name } : {}),
+    ...(profile.avatar ? { avatar: profile.avatar } : {}),
+    rating: profile.rating,
+  };
+}
+
+export function cleanName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+}
+
+// Seat name for the UI, falling back to the colour
+export function seatName(
+  seat: PlayerSeat | null | undefined,
+  side: Role,
+): string {
+  return seat?.name || (side === 'white' ? 'White' : 'Black');
+}
+
+// The seat across the board from `role`
+export function opponentSeat(
+  players: PlayersDoc,
+  role: Role,
+): PlayerSeat | null {
+  return players[opponentOf(role)] ?? null;
+}
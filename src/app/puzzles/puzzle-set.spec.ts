@@ -0,0 +1,71 @@
+import {
+  parsePuzzleCsv,
+  pickPuzzle,
+  PuzzleRun,
+  ratePuzzle,
+} from './puzzle-set';
+import { STARTER_PUZZLES_CSV } from './starter-puzzles';
+
+const BACK_RANK =
+  'ps001,3r2k1/5ppp/8/8/8/8/5PPP/4R1K1 b - - 0 1,d8d2 e1e8,900,75,90,0,backRankMate mateIn1,,';
+
+describe('puzzle set', () => {
+  it('reads Lichess CSV rows and skips ones that do not replay', () => {
+    const { puzzles, skipped } = parsePuzzleCsv(
+      [
+        'PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags',
+        BACK_RANK,
+        'bad1,not a fen,e2e4 e7e5,1000,75,90,0,short,,',
+        'bad2,3r2k1/5ppp/8/8/8/8/5PPP/4R1K1 b - - 0 1,d8d2 e1e9,900,75,90,0,short,,',
+      ].join('\n'),
+    );
+    expect(puzzles.map((p) => p.id)).toEqual(['ps001']);
+    expect(puzzles[0].themes).toEqual(['backRankMate', 'mateIn1']);
+    expect(skipped).toBe(2);
+  });
+
+  it('bundles only playable puzzles', () => {
+    const { puzzles, skipped } = parsePuzzleCsv(STARTER_PUZZLES_CSV);
+    expect(puzzles.length).toBe(10);
+    expect(skipped).toBe(0);
+  });
+
+  it('checks moves against the line and plays the replies', () => {
+    const [fork] = parsePuzzleCsv(
+      'ps005,6k1/2q2ppp/8/3N4/8/8/5PPP/6K1 b - - 0 1,c7c6 d5e7 g8f8 e7c6,1100,75,90,0,fork,,',
+    ).puzzles;
+    const run = new PuzzleRun(fork);
+    expect(run.solver).toBe('white');
+    expect(run.hint()).toBe('Move your knight on d5');
+
+    expect(run.tryMove({ from: 'd5', to: 'f6' })).toBe('wrong');
+    expect(run.tryMove({ from: 'd5', to: 'e7' })).toBe('correct');
+    expect(run.playNext()).toBeTrue();
+    expect(run.tryMove({ from: 'e7', to: 'c6' })).toBe('solved');
+  });
+
+  it('accepts any mate on the final move', () => {
+    // The line gives Re8#, but Ra8# mates just as well; Ra7 does not
+    const [backRank] = parsePuzzleCsv(
+      'x1,6k1/1p3ppp/8/8/8/8/5PPP/R3R1K1 b - - 0 1,b7b6 e1e8,800,75,90,0,mateIn1,,',
+    ).puzzles;
+    expect(new PuzzleRun(backRank).tryMove({ from: 'a1', to: 'a7' })).toBe(
+      'wrong',
+    );
+    expect(new PuzzleRun(backRank).tryMove({ from: 'a1', to: 'a8' })).toBe(
+      'solved',
+    );
+  });
+
+  it('rates attempts and picks unseen puzzles near the rating', () => {
+    expect(ratePuzzle(1500, 1500, 'solved')).toBe(1516);
+    expect(ratePuzzle(1500, 1500, 'failed')).toBe(1484);
+
+    const { puzzles } = parsePuzzleCsv(STARTER_PUZZLES_CSV);
+    const next = pickPuzzle(puzzles, {
+      rating: 1600,
+      results: { ps009: 'solved' },
+    });
+    expect(next?.id).toBe('ps007'); // 1550, ps009 (1650) already solved
+  });
+});
@@ -0,0 +1,166 @@
+import { Chess, Square, validateFen } from 'chess.js';
+import { playMove } from '../chess/moves';
+import { updateElo } from '../profile/player-profile';
+import { MoveInput, Promotion, Role } from '../types/messages';
+import {
+  Puzzle,
+  PuzzleFilter,
+  PuzzleOutcome,
+  PuzzleProgress,
+} from '../types/puzzle';
+
+export const MAX_IMPORTED_PUZZLES = 5000; // the full Lichess file has millions
+
+const PIECE_NAMES: Record<string, string> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king',
+};
+
+// Rows of a Lichess puzzle CSV: PuzzleId,FEN,Moves,Rating,RatingDeviation,
+// Popularity,NbPlays,Themes,GameUrl,OpeningTags. The header row is optional;
+// rows that don't replay are skipped.
+export function parsePuzzleCsv(
+  text: string,
+  limit = MAX_IMPORTED_PUZZLES,
+): { puzzles: Puzzle[]; skipped: number } {
+  const puzzles: Puzzle[] = [];
+  let skipped = 0;
+  for (const line of text.split(/\r?\n/)) {
+    if (puzzles.length >= limit) break;
+    const cells = line.split(',');
+    if (!line.trim() || cells[0] === 'PuzzleId') continue;
+
+    const puzzle: Puzzle = {
+      id: cells[0]?.trim() ?? '',
+      fen: cells[1]?.trim() ?? '',
+      moves: (cells[2] ?? '').trim().split(/\s+/).filter(Boolean),
+      rating: Number(cells[3]),
+      themes: (cells[7] ?? '').trim().split(/\s+/).filter(Boolean),
+    };
+    if (isPlayable(puzzle)) puzzles.push(puzzle);
+    else skipped++;
+  }
+  return { puzzles, skipped };
+}
+
+function isPlayable(puzzle: Puzzle): boolean {
+  if (!puzzle.id || !Number.isFinite(puzzle.rating)) return false;
+  if (puzzle.moves.length < 2 || !validateFen(puzzle.fen).ok) return false;
+  try {
+    const chess = new Chess(puzzle.fen);
+    for (const uci of puzzle.moves) chess.move(uciToMove(uci));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function uciToMove(uci: string): MoveInput {
+  const promotion = uci[4] as Promotion | undefined;
+  return {
+    from: uci.slice(0, 2),
+    to: uci.slice(2, 4),
+    ...(promotion ? { promotion } : {}),
+  };
+}
+
+function moveToUci(move: MoveInput): string {
+  return `${move.from}${move.to}${move.promotion ?? ''}`;
+}
+
+// Every theme in the set, alphabetically
+export function puzzleThemes(puzzles: Puzzle[]): string[] {
+  return [...new Set(puzzles.flatMap((p) => p.themes))].sort();
+}
+
+export function filterPuzzles(puzzles: Puzzle[], filter: PuzzleFilter): Puzzle[] {
+  return puzzles.filter(
+    (p) =>
+      (!filter.theme || p.themes.includes(filter.theme)) &&
+      p.rating >= filter.minRating &&
+      p.rating <= filter.maxRating,
+  );
+}
+
+// Next puzzle to try: unseen ones first, then failed ones, nearest the
+// player's rating; `skip` avoids repeating the puzzle just played
+export function pickPuzzle(
+  puzzles: Puzzle[],
+  progress: PuzzleProgress,
+  skip?: string,
+): Puzzle | null {
+  const pool = puzzles.filter((p) => p.id !== skip);
+  const unseen = pool.filter((p) => !progress.results[p.id]);
+  const failed = pool.filter((p) => progress.results[p.id] === 'failed');
+  const candidates = unseen.length ? unseen : failed.length ? failed : pool;
+  const distance = (p: Puzzle) => Math.abs(p.rating - progress.rating);
+  return [...candidates].sort((a, b) => distance(a) - distance(b))[0] ?? null;
+}
+
+// Elo update against the puzzle's rating
+export function ratePuzzle(
+  rating: number,
+  puzzleRating: number,
+  outcome: PuzzleOutcome,
+): number {
+  return updateElo(rating, puzzleRating, outcome === 'solved' ? 1 : 0);
+}
+
+// One attempt at a puzzle. The opponent's setup move is already played;
+// `step` indexes the next move of the solution line.
+export class PuzzleRun {
+  readonly chess: Chess;
+  readonly solver: Role;
+  step = 1;
+
+  constructor(readonly puzzle: Puzzle) {
+    this.chess = new Chess(puzzle.fen);
+    this.chess.move(uciToMove(puzzle.moves[0]));
+    this.solver = this.chess.turn() === 'w' ? 'white' : 'black';
+  }
+
+  get done(): boolean {
+    return this.step >= this.puzzle.moves.length;
+  }
+
+  // The solver's move: a wrong one leaves the position unchanged. Any mate
+  // on the final move counts, as on Lichess.
+  tryMove(move: MoveInput): 'wrong' | 'correct' | 'solved' {
+    if (this.done) return 'wrong';
+    const expected = this.puzzle.moves[this.step];
+    const probe = new Chess(this.chess.fen());
+    try {
+      playMove(probe, move);
+    } catch {
+      return 'wrong';
+    }
+    const lastMove = this.step === this.puzzle.moves.length - 1;
+    if (moveToUci(move) !== expected && !(lastMove && probe.isCheckmate())) {
+      return 'wrong';
+    }
+    playMove(this.chess, move);
+    this.step++;
+    return this.done ? 'solved' : 'correct';
+  }
+
+  // The next move of the line for whoever is to move: the opponent's reply
+  // after a correct move, or the solution when it is shown
+  playNext(): boolean {
+    if (this.done) return false;
+    this.chess.move(uciToMove(this.puzzle.moves[this.step]));
+    this.step++;
+    return true;
+  }
+
+  // "Move your knight on f3" for the solver's next move
+  hint(): string {
+    if (this.done) return '';
+    const from = uciToMove(this.puzzle.moves[this.step]).from;
+    const piece = this.chess.get(from as Square);
+    return `Move your ${PIECE_NAMES[piece?.type ?? 'p']} on ${from}`;
+  }
+}
@@ -0,0 +1,14 @@
+// Bundled with the app so the trainer works offline from the first visit.
+// Same columns as the Lichess puzzle database export.
+export const STARTER_PUZZLES_CSV = `PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
+ps001,3r2k1/5ppp/8/8/8/8/5PPP/4R1K1 b - - 0 1,d8d2 e1e8,900,75,90,0,backRankMate endgame mate mateIn1 oneMove,,
+ps002,r1bqkbnr/pppp1ppp/2n5/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR b KQkq - 3 3,g8f6 h5f7,650,75,90,0,mate mateIn1 oneMove opening,,
+ps003,rnbqkbnr/pppp1ppp/8/4p3/8/5P2/PPPPP1PP/RNBQKBNR w KQkq - 0 2,g2g4 d8h4,600,75,90,0,mate mateIn1 oneMove opening,,
+ps004,r6k/p5pp/7N/3Q4/8/8/6PP/6K1 b - - 0 1,a7a6 d5g8 a8g8 h6f7,1450,75,90,0,mate mateIn2 middlegame sacrifice smotheredMate,,
+ps005,6k1/2q2ppp/8/3N4/8/8/5PPP/6K1 b - - 0 1,c7c6 d5e7 g8f8 e7c6,1100,75,90,0,crushing endgame fork short,,
+ps006,7k/R7/8/8/8/8/8/1R4K1 b - - 0 1,h8g8 b1b8,700,75,90,0,endgame mate mateIn1 oneMove rookEndgame,,
+ps007,rn1qkbnr/ppp2ppp/3p4/4p3/2B1P1b1/2N2N2/PPPP1PPP/R1BQK2R b KQkq - 3 4,g7g6 f3e5 g4d1 c4f7 e8e7 c3d5,1550,75,90,0,mate mateIn3 opening sacrifice,,
+ps008,rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2,d8h4 f3h4,800,75,90,0,hangingPiece oneMove opening,,
+ps009,8/4P1k1/8/8/3q4/8/8/4K3 b - - 0 1,d4d6 e7e8n g7f7 e8d6,1650,75,90,0,advancedPawn crushing endgame fork promotion underPromotion,,
+ps010,4r1k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1,d1d7 e8e1,850,75,90,0,backRankMate endgame mate mateIn1 oneMove,,
+`;
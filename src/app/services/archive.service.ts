@@ -0,0 +1,38 @@
+import { Injectable } from '@angular/core';
+import { ArchivedGame } from '../types/archive';
+import { IndexedDbService } from './indexed-db.service';
+
+@Injectable({ providedIn: 'root' })
+export class ArchiveService {
+  constructor(private idb: IndexedDbService) {}
+
+  // Store a finished game; losing an archive entry must never break play
+  async add(game: Omit<ArchivedGame, 'id'>): Promise<void> {
+    const id =
+      crypto?.randomUUID?.() ??
+      Math.random().toString(36).slice(2) + Date.now().toString(36);
+    try {
+      await this.idb.put<ArchivedGame>('archive', { ...game, id });
+    } catch {}
+  }
+
+  // Newest first
+  async list(): Promise<ArchivedGame[]> {
+    try {
+      const games = await this.idb.getAll<ArchivedGame>('archive');
+      return games.sort((a, b) => b.playedAt - a.playedAt);
+    } catch {
+      return [];
+    }
+  }
+
+  // False if any of the games could not be deleted
+  async remove(ids: string[]): Promise<boolean> {
+    try {
+      for (const id of ids) await this.idb.delete('archive', id);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { Injectable } from '@angular/core';
+
+const DB_NAME = 'pencil-chess';
+const DB_VERSION = 2; // 2: puzzles store
+
+// Object stores: key/value saves for StorageService, the game archive and
+// imported puzzles
+export type StoreName = 'kv' | 'archive' | 'puzzles';
+
+@Injectable({ providedIn: 'root' })
+export class IndexedDbService {
+  private db: Promise<IDBDatabase> | null = null;
+
+  get<T>(store: StoreName, key: string): Promise<T | null> {
+    return this.run<T | undefined>(store, 'readonly', (s) => s.get(key)).then(
+      (value) => value ?? null,
+    );
+  }
+
+  getAll<T>(store: StoreName): Promise<T[]> {
+    return this.run<T[]>(store, 'readonly', (s) => s.getAll());
+  }
+
+  // Entries as [key, value] pairs, for stores without an in-line key
+  async entries<T>(store: StoreName): Promise<[string, T][]> {
+    const keys = await this.run<IDBValidKey[]>(store, 'readonly', (s) =>
+      s.getAllKeys(),
+    );
+    const values = await this.getAll<T>(store);
+    return keys.map((key, i) => [String(key), values[i]]);
+  }
+
+  async put<T>(store: StoreName, value: T, key?: string): Promise<void> {
+    await this.run(store, 'readwrite', (s) => s.put(value, key));
+  }
+
+  // Many values with in-line keys in one transaction
+  async putAll<T>(store: StoreName, values: T[]): Promise<void> {
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(store, 'readwrite');
+      const s = tx.objectStore(store);
+      for (const value of values) s.put(value);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async delete(store: StoreName, key: string): Promise<void> {
+    await this.run(store, 'readwrite', (s) => s.delete(key));
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    await this.run(store, 'readwrite', (s) => s.clear());
+  }
+
+  // One request against one store, as a promise
+  private async run<T>(
+    store: StoreName,
+    mode: IDBTransactionMode,
+    request: (s: IDBObjectStore) => IDBRequest,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const req = request(db.transaction(store, mode).objectStore(store));
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  // Open (and on first use create) the database once per page
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains('kv')) db.createObjectStore('kv');
+          if (!db.objectStoreNames.contains('archive')) {
+            db.createObjectStore('archive', { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains('puzzles')) {
+            db.createObjectStore('puzzles', { keyPath: 'id' });
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      this.db.catch(() => (this.db = null)); // allow a retry later
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,17 @@
+import { Injectable } from '@angular/core';
+import { Chess } from 'chess.js';
+import { buildEcoIndex, findOpening } from '../openings/eco';
+import { ECO_TABLE_TSV } from '../openings/eco-table';
+import { Opening } from '../types/opening';
+
+// Names the opening on the board from the bundled ECO table; shared by the
+// local and online games
+@Injectable({ providedIn: 'root' })
+export class OpeningService {
+  private index: Map<string, Opening> | null = null; // built on first lookup
+
+  lookup(chess: Chess): Opening | null {
+    this.index ??= buildEcoIndex(ECO_TABLE_TSV);
+    return findOpening(chess, this.index);
+  }
+}
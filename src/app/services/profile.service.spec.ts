@@ -0,0 +1,37 @@
+import { START_RATING } from '../profile/player-profile';
+import { StorageBackend } from './storage-backend';
+import { ProfileService } from './profile.service';
+
+// Saves kept in a map instead of the browser's storage
+function memoryBackend(): StorageBackend {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key),
+  };
+}
+
+describe('ProfileService', () => {
+  it('keeps the name and avatar when the rating is reset', () => {
+    const backend = memoryBackend();
+    const profiles = new ProfileService(backend);
+    profiles.rename('Ann', '🦉');
+    profiles.recordGame({
+      code: 'AAA111',
+      result: { winner: 'white', reason: 'checkmate' },
+      role: 'white',
+      opponent: { id: 'them', rating: 1500 },
+      rated: true,
+    });
+
+    profiles.reset();
+
+    const reloaded = new ProfileService(backend).profile;
+    expect(reloaded.name).toBe('Ann');
+    expect(reloaded.avatar).toBe('🦉');
+    expect(reloaded.rating).toBe(START_RATING);
+    expect(reloaded.record).toEqual({ wins: 0, losses: 0, draws: 0 });
+    expect(reloaded.history).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { Inject, Injectable } from '@angular/core';
+import {
+  applyGameResult,
+  cleanName,
+  defaultProfile,
+  seatProfile,
+} from '../profile/player-profile';
+import { GameResult, Role } from '../types/messages';
+import { PlayerSeat } from '../types/online';
+import { PlayerProfile } from '../types/profile';
+import { StorageBackend, STORAGE_BACKEND } from './storage-backend';
+import { StorageService } from './storage.service';
+
+// This browser's player: name, avatar, rating and record. Shared by the
+// online game, the lobby and the profile page, so it isn't per component.
+@Injectable({ providedIn: 'root' })
+export class ProfileService {
+  private storage: StorageService<PlayerProfile>;
+  private current: PlayerProfile;
+
+  constructor(@Inject(STORAGE_BACKEND) backend: StorageBackend) {
+    this.storage = new StorageService<PlayerProfile>('player-profile', backend);
+    this.current = { ...defaultProfile(), ...this.storage.load() };
+  }
+
+  get profile(): PlayerProfile {
+    return this.current;
+  }
+
+  // What to write into a seat we take
+  get seat(): Omit<PlayerSeat, 'id'> {
+    return seatProfile(this.current);
+  }
+
+  rename(name: string, avatar: string): void {
+    this.save({ ...this.current, name: cleanName(name), avatar });
+  }
+
+  // Count a finished online game, moving the rating if it was rated
+  recordGame(game: {
+    code: string;
+    result: GameResult;
+    role: Role;
+    opponent: PlayerSeat | null;
+    rated: boolean;
+  }): void {
+    this.save(applyGameResult(this.current, { ...game, at: Date.now() }));
+  }
+
+  // Start the rating and record over; who the player is stays
+  reset(): void {
+    this.save({
+      ...defaultProfile(),
+      name: this.current.name,
+      avatar: this.current.avatar,
+    });
+  }
+
+  private save(profile: PlayerProfile): void {
+    this.current = profile;
+    this.storage.save(profile);
+  }
+}
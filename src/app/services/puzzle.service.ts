@@ -0,0 +1,46 @@
+import { Injectable } from '@angular/core';
+import { parsePuzzleCsv } from '../puzzles/puzzle-set';
+import { STARTER_PUZZLES_CSV } from '../puzzles/starter-puzzles';
+import { Puzzle } from '../types/puzzle';
+import { IndexedDbService } from './indexed-db.service';
+
+// The bundled starter set plus whatever the user imported; all local, so
+// puzzles keep working offline
+@Injectable({ providedIn: 'root' })
+export class PuzzleService {
+  private readonly starter = parsePuzzleCsv(STARTER_PUZZLES_CSV).puzzles;
+
+  constructor(private idb: IndexedDbService) {}
+
+  // Starter puzzles first; an imported puzzle with the same id wins
+  async all(): Promise<Puzzle[]> {
+    const imported = await this.imported();
+    const ids = new Set(imported.map((p) => p.id));
+    return [...this.starter.filter((p) => !ids.has(p.id)), ...imported];
+  }
+
+  async imported(): Promise<Puzzle[]> {
+    try {
+      return await this.idb.getAll<Puzzle>('puzzles');
+    } catch {
+      return [];
+    }
+  }
+
+  // Add the rows of a Lichess CSV; returns how many were kept and skipped
+  async importCsv(text: string): Promise<{ added: number; skipped: number }> {
+    const { puzzles, skipped } = parsePuzzleCsv(text);
+    await this.idb.putAll('puzzles', puzzles);
+    return { added: puzzles.length, skipped };
+  }
+
+  // False if the imported puzzles could not be removed
+  async clearImported(): Promise<boolean> {
+    try {
+      await this.idb.clear('puzzles');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { Injectable, InjectionToken } from '@angular/core';
+import { IndexedDbService } from './indexed-db.service';
+
+// Synchronous string store StorageService reads and writes through
+export interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// localStorage unless the app provides something else
+export const STORAGE_BACKEND = new InjectionToken<StorageBackend>(
+  'STORAGE_BACKEND',
+  { providedIn: 'root', factory: () => localStorage },
+);
+
+// A write that landed in IndexedDB, passed to the other tabs' caches
+interface StorageChange {
+  key: string;
+  value: string | null; // null: removed
+}
+
+// IndexedDB behind an in-memory cache: reads stay synchronous, writes go
+// through in the background. hydrate() must finish before the first read.
+// Each tab hydrates once, so tabs pass their landed writes to each other.
+@Injectable({ providedIn: 'root' })
+export class IndexedDbBackend implements StorageBackend {
+  private cache = new Map<string, string>();
+  private available = false; // false: behave exactly like localStorage
+  private channel: BroadcastChannel | null = null;
+
+  constructor(private idb: IndexedDbService) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel('pencil-chess-storage');
+      this.channel.onmessage = (event: MessageEvent<StorageChange>) => {
+        const { key, value } = event.data;
+        if (value === null) this.cache.delete(key);
+        else this.cache.set(key, value);
+      };
+    }
+  }
+
+  async hydrate(): Promise<void> {
+    try {
+      for (const [key, value] of await this.idb.entries<string>('kv')) {
+        this.cache.set(key, value);
+      }
+      this.available = true;
+    } catch {
+      this.available = false;
+    }
+  }
+
+  getItem(key: string): string | null {
+    if (!this.available) return localStorage.getItem(key);
+    // Saves written before the switch still live in localStorage, as do
+    // writes IndexedDB refused; either is newer than the cached copy
+    return localStorage.getItem(key) ?? this.cache.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    if (!this.available) {
+      localStorage.setItem(key, value);
+      return;
+    }
+    this.cache.set(key, value);
+    this.idb.put('kv', value, key).then(
+      () => {
+        if (this.cache.get(key) !== value) return; // a later write owns the key
+        localStorage.removeItem(key); // migrated
+        this.announce({ key, value });
+      },
+      () => {
+        // Keep the save where the next page load will find it
+        if (this.cache.get(key) !== value) return;
+        try {
+          localStorage.setItem(key, value);
+        } catch {}
+      },
+    );
+  }
+
+  removeItem(key: string): void {
+    localStorage.removeItem(key);
+    if (!this.available) return;
+    this.cache.delete(key);
+    this.idb.delete('kv', key).then(
+      () => this.announce({ key, value: null }),
+      () => {},
+    );
+  }
+
+  private announce(change: StorageChange): void {
+    this.channel?.postMessage(change);
+  }
+}
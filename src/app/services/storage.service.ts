@@ -1,14 +1,18 @@
 import { Injectable, InjectionToken, Inject } from '@angular/core';
+import { StorageBackend, STORAGE_BACKEND } from './storage-backend';
 
 export const STORAGE_KEY = new InjectionToken<string>('STORAGE_KEY');
 
 @Injectable()
 export class StorageService<T> {
-  constructor(@Inject(STORAGE_KEY) private readonly key: string) {}
+  constructor(
+    @Inject(STORAGE_KEY) private readonly key: string,
+    @Inject(STORAGE_BACKEND) private readonly backend: StorageBackend,
+  ) {}
 
   load(): T | null {
     try {
-      const raw = localStorage.getItem(this.key);
+      const raw = this.backend.getItem(this.key);
       return raw ? (JSON.parse(raw) as T) : null;
     } catch {
       return null;
@@ -17,13 +21,13 @@ export class StorageService<T> {
 
   save(state: T): void {
     try {
-      localStorage.setItem(this.key, JSON.stringify(state));
+      this.backend.setItem(this.key, JSON.stringify(state));
     } catch {}
   }
 
   clear(): void {
     try {
-      localStorage.removeItem(this.key);
+      this.backend.removeItem(this.key);
     } catch {}
   }
 }
@@ -0,0 +1,60 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CHAT_MAX_LENGTH, QUICK_MESSAGES } from '../../online/chat';
+import { Role } from '../../types/messages';
+import { ChatMessage } from '../../types/online';
+
+const SMALL_SCREEN = '(max-width: 700px)';
+
+@Component({
+  selector: 'app-chat-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './chat-panel.component.html',
+  styleUrls: ['./chat-panel.component.scss'],
+})
+export class ChatPanelComponent {
+  @Input() messages: ChatMessage[] = []; // in sending order
+  @Input() role: Role | null = null; // null = spectator, read-only
+  @Input() muted = false; // hide the other side's messages
+  @Input() notice = ''; // e.g. rate limit hint from the owner
+  @Output() send = new EventEmitter<string>();
+  @Output() mutedChange = new EventEmitter<boolean>();
+
+  readonly maxLength = CHAT_MAX_LENGTH;
+  readonly quickMessages = QUICK_MESSAGES;
+  draft = '';
+  open = !window.matchMedia?.(SMALL_SCREEN).matches; // collapsed on phones
+  private seen = 0; // visible messages when the panel was last closed
+
+  // Own messages always show; muting hides everyone else's
+  get visible(): ChatMessage[] {
+    if (!this.muted) return this.messages;
+    return this.messages.filter((m) => m.from === this.role);
+  }
+
+  // Arrived while collapsed
+  get unread(): number {
+    return Math.max(0, this.visible.length - this.seen);
+  }
+
+  get canWrite(): boolean {
+    return !!this.role;
+  }
+
+  toggle(): void {
+    this.open = !this.open;
+    if (!this.open) this.seen = this.visible.length;
+  }
+
+  toggleMute(): void {
+    this.mutedChange.emit(!this.muted);
+  }
+
+  submit(text = this.draft): void {
+    if (!this.canWrite || !text.trim()) return;
+    this.send.emit(text);
+    if (text === this.draft) this.draft = '';
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  Component,
+  EventEmitter,
+  HostListener,
+  Input,
+  Output,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+type MoveRow = { number: number; white?: string; black?: string };
+
+@Component({
+  selector: 'app-move-list',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './move-list.component.html',
+  styleUrls: ['./move-list.component.scss'],
+})
+export class MoveListComponent {
+  @Input() moves: string[] = []; // SAN, in play order
+  @Input() viewPly: number | null = null; // null = live position
+  @Output() viewPlyChange = new EventEmitter<number | null>();
+
+  // Pair plies into numbered rows: "1. e4 e5"
+  get rows(): MoveRow[] {
+    const rows: MoveRow[] = [];
+    for (let i = 0; i < this.moves.length; i += 2) {
+      rows.push({
+        number: i / 2 + 1,
+        white: this.moves[i],
+        black: this.moves[i + 1],
+      });
+    }
+    return rows;
+  }
+
+  get isLive(): boolean {
+    return this.viewPly === null;
+  }
+
+  // Ply shown on the board right now
+  get currentPly(): number {
+    return this.viewPly ?? this.moves.length;
+  }
+
+  // Select the position after the given ply; the last ply means live
+  select(ply: number): void {
+    const clamped = Math.max(0, Math.min(ply, this.moves.length));
+    const next = clamped === this.moves.length ? null : clamped;
+    if (next === this.viewPly) return;
+    this.viewPly = next;
+    this.viewPlyChange.emit(next);
+  }
+
+  backToLive(): void {
+    this.select(this.moves.length);
+  }
+
+  // Arrow keys step through the game; ignored while typing in a field
+  @HostListener('window:keydown', ['$event'])
+  onKey(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, select')) return;
+    if (this.navigate(event.key)) event.preventDefault();
+  }
+
+  // Step by a navigation key, also when pressed inside a board iframe;
+  // false for any other key
+  navigate(key: string): boolean {
+    switch (key) {
+      case 'ArrowLeft':
+        this.select(this.currentPly - 1);
+        break;
+      case 'ArrowRight':
+        this.select(this.currentPly + 1);
+        break;
+      case 'Home':
+        this.select(0);
+        break;
+      case 'End':
+        this.backToLive();
+        break;
+      default:
+        return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,28 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Promotion, Role } from '../../types/messages';
+
+type Choice = { piece: Promotion; name: string; white: string; black: string };
+
+const CHOICES: Choice[] = [
+  { piece: 'q', name: 'Queen', white: '♕', black: '♛' },
+  { piece: 'r', name: 'Rook', white: '♖', black: '♜' },
+  { piece: 'b', name: 'Bishop', white: '♗', black: '♝' },
+  { piece: 'n', name: 'Knight', white: '♘', black: '♞' },
+];
+
+// Asks which piece a pawn promotes to; shown over the board
+@Component({
+  selector: 'app-promotion-picker',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './promotion-picker.component.html',
+  styleUrls: ['./promotion-picker.component.scss'],
+})
+export class PromotionPickerComponent {
+  @Input() color: Role = 'white'; // colour of the promoting pawn
+  @Output() pick = new EventEmitter<Promotion>();
+  @Output() cancel = new EventEmitter<void>();
+
+  readonly choices = CHOICES;
+}
@@ -0,0 +1,21 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { TimeControlPickerComponent } from './time-control-picker.component';
+
+describe('TimeControlPickerComponent', () => {
+  let component: TimeControlPickerComponent;
+  let fixture: ComponentFixture<TimeControlPickerComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [TimeControlPickerComponent]
+    });
+    fixture = TestBed.createComponent(TimeControlPickerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
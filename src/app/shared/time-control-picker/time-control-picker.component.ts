@@ -0,0 +1,66 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TIME_CONTROL_PRESETS, timeControlLabel } from '../../chess/clock';
+import { TimeControl } from '../../types/clock';
+
+@Component({
+  selector: 'app-time-control-picker',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './time-control-picker.component.html',
+  styleUrls: ['./time-control-picker.component.scss'],
+})
+export class TimeControlPickerComponent implements OnInit {
+  @Input() value: TimeControl | null = null;
+  @Output() valueChange = new EventEmitter<TimeControl | null>();
+
+  readonly presets = TIME_CONTROL_PRESETS.map(timeControlLabel);
+  choice = 'none'; // preset label, 'none' or 'custom'
+  customMinutes = 10;
+  customIncrement = 5;
+
+  ngOnInit(): void {
+    // Reflect an incoming value as a preset or custom entry
+    if (!this.value) return;
+    const label = timeControlLabel(this.value);
+    if (this.presets.includes(label)) {
+      this.choice = label;
+    } else {
+      this.choice = 'custom';
+      this.customMinutes = this.value.initial / 60;
+      this.customIncrement = this.value.increment;
+    }
+  }
+
+  // Emit whenever the selection or a custom field changes
+  emit(): void {
+    this.value = this.selected();
+    this.valueChange.emit(this.value);
+  }
+
+  private selected(): TimeControl | null {
+    if (this.choice === 'none') return null;
+    if (this.choice === 'custom') {
+      // Keep it playable: 1-180 minutes, 0-60s increment
+      const minutes = clamp(Number(this.customMinutes) || 1, 1, 180);
+      const increment = clamp(Number(this.customIncrement) || 0, 0, 60);
+      return {
+        initial: Math.round(minutes * 60),
+        increment: Math.round(increment),
+      };
+    }
+    const index = this.presets.indexOf(this.choice);
+    return TIME_CONTROL_PRESETS[index] ?? null;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
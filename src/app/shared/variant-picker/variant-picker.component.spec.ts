@@ -0,0 +1,21 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { VariantPickerComponent } from './variant-picker.component';
+
+describe('VariantPickerComponent', () => {
+  let component: VariantPickerComponent;
+  let fixture: ComponentFixture<VariantPickerComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [VariantPickerComponent]
+    });
+    fixture = TestBed.createComponent(VariantPickerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,32 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Variant } from '../../types/variant';
+import { variantAvailable, VARIANTS } from '../../variants/variants';
+
+@Component({
+  selector: 'app-variant-picker',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './variant-picker.component.html',
+  styleUrls: ['./variant-picker.component.scss'],
+})
+export class VariantPickerComponent {
+  @Input() value: Variant = 'standard';
+  @Output() valueChange = new EventEmitter<Variant>();
+
+  readonly variants = VARIANTS;
+
+  get rules(): string {
+    return VARIANTS.find((v) => v.id === this.value)?.rules ?? '';
+  }
+
+  available(variant: Variant): boolean {
+    return variantAvailable(variant);
+  }
+
+  pick(variant: Variant): void {
+    this.value = variant;
+    this.valueChange.emit(variant);
+  }
+}
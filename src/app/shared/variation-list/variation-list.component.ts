@@ -0,0 +1,55 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  nagSymbol,
+  VariationNode,
+  VariationTree,
+} from '../../analysis/variation-tree';
+
+// Move list for a VariationTree: the main line with its variations nested
+// in brackets underneath the move they replace
+@Component({
+  selector: 'app-variation-list',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './variation-list.component.html',
+  styleUrls: ['./variation-list.component.scss'],
+})
+export class VariationListComponent {
+  @Input() tree = new VariationTree(); // changed in place by the owner
+  @Output() select = new EventEmitter<VariationNode>();
+
+  // A line's moves: `start`, then the first child of each move after it
+  line(start: VariationNode): VariationNode[] {
+    const nodes = [start];
+    let node = start;
+    while (node.children[0]) {
+      node = node.children[0];
+      nodes.push(node);
+    }
+    return nodes;
+  }
+
+  // Alternatives to `node`, listed only where it is the line's own move
+  variationsAt(node: VariationNode): VariationNode[] {
+    const parent = node.parent!;
+    return parent.children[0] === node ? parent.children.slice(1) : [];
+  }
+
+  // White moves always carry their number; Black's when a line starts
+  // or resumes after a comment or variation
+  label(node: VariationNode, index: number): string {
+    const annotated = node.san + node.nags.map(nagSymbol).join('');
+    if (this.tree.isWhiteMove(node)) {
+      return `${this.tree.moveNumber(node)} ${annotated}`;
+    }
+    const prev = node.parent!;
+    const resumes =
+      index === 0 || !!prev.comment || this.variationsAt(prev).length > 0;
+    return resumes ? `${this.tree.moveNumber(node)} ${annotated}` : annotated;
+  }
+
+  trackById(_: number, node: VariationNode): number {
+    return node.id;
+  }
+}
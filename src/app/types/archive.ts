@@ -0,0 +1,17 @@
+import { GameResult, Role, Score } from './messages';
+
+export type GameMode = 'offline' | 'online' | 'computer';
+
+// One finished game kept in the local archive
+export type ArchivedGame = {
+  id: string;
+  mode: GameMode;
+  pgn: string;
+  result: GameResult;
+  score: Score;
+  playedAt: number; // epoch ms when the game ended
+  white: string;
+  black: string;
+  playerColor: Role | null; // null when both sides were played here
+  opponent: string;
+};
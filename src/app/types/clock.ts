@@ -0,0 +1,12 @@
+import { Role } from './messages';
+
+// Base time and per-move increment, both in seconds
+export type TimeControl = { initial: number; increment: number };
+
+// Remaining ms per side as of `since` (epoch ms); only `running` is ticking
+export type ClockState = {
+  white: number;
+  black: number;
+  running: Role | null;
+  since: number;
+};
@@ -0,0 +1,20 @@
+import { MoveInput } from './messages';
+
+// One strength setting: how deep and how long to search, and how sloppy to be
+export type EngineLevel = {
+  name: string;
+  depth: number; // max iterative-deepening depth in plies
+  timeMs: number; // stop deepening after this long
+  randomness: number; // centipawns of noise added to root moves
+};
+
+// Page -> worker: think about this game
+export type EngineRequest = {
+  id: number;
+  startFen: string;
+  moves: string[]; // SAN, replayed so repetitions are known
+  level: EngineLevel;
+};
+
+// Worker -> page: chosen move, or null when there is none
+export type EngineReply = { id: number; move: MoveInput | null };
@@ -1,12 +1,77 @@
+import { Variant } from './variant';
+
 export type Role = 'white' | 'black';
 export type Turn = 'w' | 'b';
+export type Promotion = 'q' | 'r' | 'b' | 'n';
+// Keys that step through a move list
+export type NavigationKey = 'ArrowLeft' | 'ArrowRight' | 'Home' | 'End';
+
+export type GameOverReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'threefold-repetition'
+  | 'fifty-move-rule'
+  | 'insufficient-material'
+  | 'timeout'
+  | 'timeout-vs-insufficient-material'
+  | 'resignation'
+  | 'agreement'
+  | 'aborted'
+  | 'abandonment'
+  | 'king-of-the-hill'
+  | 'three-check'
+  | 'horde-captured';
+
+// winner is null for draws and aborted games
+export type GameResult = { winner: Role | null; reason: GameOverReason };
+export type Score = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+// A single move as squares, replayed by the host through chess.js
+export type MoveInput = { from: string; to: string; promotion?: Promotion };
 
 export type WireMessage =
   | { type: 'IFRAME_READY' }
   | { type: 'ROLE_ASSIGN'; role: Role }
   | { type: 'REQUEST_SYNC' }
-  | { type: 'SYNC_STATE'; fen: string; pgn?: string }
-  | { type: 'BOARD_UPDATE'; fen: string }
-  | { type: 'TURN'; turn: Turn }
+  | { type: 'SYNC_STATE'; fen: string; pgn?: string; variant?: Variant }
+  | { type: 'HISTORY_VIEW'; fen: string; ply: number }
+  | { type: 'MOVE'; move: MoveInput }
+  | { type: 'MOVE_REJECTED'; fen: string; reason: string }
+  | { type: 'TURN'; turn: Turn; ply: number }
   | { type: 'RESET' }
-  | { type: 'GAME_OVER'; winner: Role; reason: 'checkmate' };
+  | { type: 'RESIGN' }
+  | { type: 'ABORT' }
+  | { type: 'DRAW_OFFER' }
+  | { type: 'DRAW_REPLY'; accept: boolean }
+  | { type: 'DRAW_STATE'; offeredBy: Role | null }
+  | { type: 'TAKEBACK_REQUEST' }
+  | { type: 'TAKEBACK_REPLY'; accept: boolean }
+  | { type: 'TAKEBACK_STATE'; requestedBy: Role | null }
+  | { type: 'NAVIGATE'; key: NavigationKey } // a key pressed inside the board
+  | ({ type: 'GAME_OVER' } & GameResult);
+
+// What the embedded board sends to its parent; everything else goes the other way
+export type BoardEvent = Extract<
+  WireMessage,
+  {
+    type:
+      | 'IFRAME_READY'
+      | 'REQUEST_SYNC'
+      | 'MOVE'
+      | 'RESIGN'
+      | 'ABORT'
+      | 'DRAW_OFFER'
+      | 'DRAW_REPLY'
+      | 'TAKEBACK_REQUEST'
+      | 'TAKEBACK_REPLY'
+      | 'NAVIGATE';
+  }
+>;
+export type BoardCommand = Exclude<WireMessage, BoardEvent>;
+
+// Envelope around every postMessage between a board and its parent. Each
+// message frame is answered with an ack frame naming its id; `error` says
+// why it was refused.
+export type WireFrame =
+  | { v: number; id: string; msg: WireMessage }
+  | { v: number; id: string; ack: string; error?: string };
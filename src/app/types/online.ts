@@ -0,0 +1,83 @@
+import { ClockState, TimeControl } from './clock';
+import { GameOverReason, MoveInput, Role, Score, Turn } from './messages';
+import { Variant } from './variant';
+
+// A server-clock field: written as the backend's placeholder, which the
+// server replaces with its own epoch ms. Read it through serverMs().
+export type ServerTime = number | object;
+
+// Realtime Database shape of games/{code}
+export interface PlayersDoc {
+  white?: PlayerSeat | null;
+  black?: PlayerSeat | null;
+}
+
+// Who holds a seat, with what they show the other side
+export interface PlayerSeat {
+  id: string; // client id
+  name?: string;
+  avatar?: string; // an emoji
+  rating?: number; // at the time they took the seat
+}
+
+// Written by each player's client; onDisconnect flips `online` server-side
+export interface PresenceDoc {
+  online: boolean;
+  lastSeen: ServerTime; // the last connect or disconnect
+}
+
+// Points per client id across a run of rematches; draws score ½ each
+export interface SeriesDoc {
+  games: number; // finished games counted, aborted ones excluded
+  points: Record<string, number>;
+}
+
+// One line of chat under games/{code}/messages, keyed in sending order
+export interface ChatMessage {
+  from: Role;
+  text: string;
+  at: ServerTime;
+}
+
+// Colour a lobby seek asks for; the creator's seat is picked when it is made
+export type SeekColor = Role | 'random';
+
+// Lobby entry of a waiting game; the lobby lists only games that carry one
+export interface SeekDoc {
+  name: string; // creator's display name
+  color: SeekColor;
+  createdAt: ServerTime;
+  quick?: boolean; // made by "quick pair": gives way to an older matching seek
+}
+
+// A clock as stored with the game; `since` is server time
+export type OnlineClock = Omit<ClockState, 'since'> & { since: ServerTime };
+
+export interface GameDoc {
+  fen: string;
+  pgn?: string;
+  startFen?: string; // position the move list is replayed from
+  moves?: string[]; // SAN moves in play order; RTDB drops it while empty
+  turn: Turn;
+  lastMove?: MoveInput; // the latest move as squares, with any promotion piece
+  status?: 'waiting' | 'live' | 'ended';
+  winner?: Role | null; // absent for draws
+  reason?: GameOverReason;
+  result?: Score;
+  drawOffer?: Role | null; // side offering a draw; cleared by any move
+  takebackRequest?: Role | null; // side asking to undo; cleared by any move
+  timeControl?: TimeControl | null; // absent for untimed games
+  clock?: OnlineClock | null;
+  players?: PlayersDoc;
+  allowSpectators?: boolean; // absent on older games, which allowed watching
+  rated?: boolean; // finished games move both players' ratings
+  variant?: Variant; // absent on older games, which were standard
+  spectators?: Record<string, true>; // keyed by client id
+  presence?: { white?: PresenceDoc | null; black?: PresenceDoc | null };
+  rematchOffer?: Role | null; // side asking for a rematch after the game
+  rematchCode?: string; // the linked next game, once a rematch is accepted
+  rematchOf?: string; // code of the game this one is a rematch of
+  series?: SeriesDoc; // score of the games before this one
+  messages?: Record<string, ChatMessage>;
+  seek?: SeekDoc; // listed in the lobby while waiting
+}
@@ -0,0 +1,6 @@
+// A named opening from the ECO table, e.g. B90 "Sicilian Defense: Najdorf
+// Variation"
+export interface Opening {
+  eco: string;
+  name: string;
+}
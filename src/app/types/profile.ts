@@ -0,0 +1,14 @@
+// This browser's player, kept in local storage
+export interface PlayerProfile {
+  name: string; // '' until the player picks one
+  avatar: string; // an emoji from AVATARS, '' for none
+  rating: number;
+  record: { wins: number; losses: number; draws: number }; // online games
+  history: RatingPoint[]; // one point per rated game, oldest first
+}
+
+export interface RatingPoint {
+  at: number; // epoch ms when the game ended
+  rating: number; // rating after the game
+  code: string; // online game code
+}
@@ -0,0 +1,22 @@
+// One tactics puzzle, as read from a Lichess puzzle CSV row
+export interface Puzzle {
+  id: string;
+  fen: string; // before the opponent's setup move
+  moves: string[]; // UCI; moves[0] is the opponent's, then solver and reply alternate
+  rating: number;
+  themes: string[];
+}
+
+export type PuzzleOutcome = 'solved' | 'failed';
+
+// Saved in local storage between visits
+export interface PuzzleProgress {
+  rating: number; // the player's puzzle rating
+  results: Record<string, PuzzleOutcome>; // first attempt per puzzle id
+}
+
+export interface PuzzleFilter {
+  theme: string | null; // null = any theme
+  minRating: number;
+  maxRating: number;
+}
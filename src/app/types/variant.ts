@@ -0,0 +1,7 @@
+// Rules a game is played under; 'standard' is plain chess
+export type Variant =
+  | 'standard'
+  | 'chess960'
+  | 'kingOfTheHill'
+  | 'threeCheck'
+  | 'horde';
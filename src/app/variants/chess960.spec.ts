@@ -0,0 +1,80 @@
+import { Chess } from 'chess.js';
+import {
+  chess960Fen,
+  chess960Supported,
+  enableChess960Castling,
+  randomChess960Fen,
+  verifyChess960Support,
+} from './chess960';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+// Kings on b1/b8 beside a corner rook, the other rook on g1/g8
+const KING_ON_B = 'rk4rq/pppppppp/8/8/8/8/PPPPPPPP/RK4RQ w KQkq - 0 1';
+
+function game(fen: string): Chess {
+  return enableChess960Castling(new Chess(fen));
+}
+
+describe('chess960', () => {
+  it('numbers the start positions as Scharnagl does', () => {
+    expect(chess960Fen(518)).toBe(START);
+    expect(chess960Fen(0)).toBe(
+      'bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1',
+    );
+    expect(randomChess960Fen(() => 0.5399)).toBe(START);
+  });
+
+  it('places bishops on opposite colours and the king between the rooks', () => {
+    for (let id = 0; id < 960; id++) {
+      const back = chess960Fen(id).split('/')[7].split(' ')[0];
+      const bishops = [...back].flatMap((p, file) => (p === 'B' ? [file % 2] : []));
+      expect(bishops.sort()).toEqual([0, 1]);
+      expect(/R.*K.*R/.test(back)).toBeTrue();
+    }
+  });
+
+  it('castles by moving the king onto its rook', () => {
+    const chess = game(KING_ON_B);
+
+    const move = chess.move({ from: 'b1', to: 'a1' });
+    expect(move.san).toBe('O-O-O');
+    expect(chess.get('c1')).toEqual({ type: 'k', color: 'w' });
+    expect(chess.get('d1')).toEqual({ type: 'r', color: 'w' });
+    expect(chess.fen().split(' ')[2]).toBe('kq');
+
+    chess.move('O-O');
+    expect(chess.get('g8')).toEqual({ type: 'k', color: 'b' });
+    expect(chess.get('f8')).toEqual({ type: 'r', color: 'b' });
+  });
+
+  it('undoes a castle and replays it from SAN', () => {
+    const chess = game(KING_ON_B);
+    chess.move('O-O');
+    chess.undo();
+    expect(chess.fen()).toBe(KING_ON_B);
+
+    chess.move('O-O');
+    chess.move('O-O-O');
+    const replay = game(KING_ON_B);
+    for (const san of chess.history()) replay.move(san);
+    expect(replay.fen()).toBe(chess.fen());
+  });
+
+  it('keeps the king from castling out of or through check', () => {
+    // The black rook on f8 covers f1, which the king passes to reach g1
+    const chess = game('1k3r2/8/8/8/8/8/8/RK4R1 w KQ - 0 1');
+    expect(chess.moves()).toContain('O-O-O');
+    expect(chess.moves()).not.toContain('O-O');
+  });
+
+  it('drops the right on the side a rook moved from', () => {
+    const chess = game('rk4rq/pppppppp/8/8/8/8/1PPPPPPP/RK4RQ w KQkq - 0 1');
+    chess.move('Ra2');
+    expect(chess.fen().split(' ')[2]).toBe('Kkq');
+  });
+
+  it('works with the installed chess.js', () => {
+    expect(() => verifyChess960Support()).not.toThrow();
+    expect(chess960Supported()).toBeTrue();
+  });
+});
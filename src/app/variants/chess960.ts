@@ -0,0 +1,340 @@
+import { Chess, Color, PieceSymbol } from 'chess.js';
+
+// chess.js move flag bits and its empty-square marker
+const KSIDE_CASTLE = 32;
+const QSIDE_CASTLE = 64;
+const NULL_MOVE = 128;
+const EMPTY = -1;
+
+type CastleSide = 'k' | 'q';
+const SIDE_FLAG: Record<CastleSide, number> = { k: KSIDE_CASTLE, q: QSIDE_CASTLE };
+
+// Knights and the rook-king-rook order on the five squares left once the
+// bishops and queen are placed, indexed as in Scharnagl's numbering
+const KNIGHT_TABLE = [
+  'NNRKR',
+  'NRNKR',
+  'NRKNR',
+  'NRKRN',
+  'RNNKR',
+  'RNKNR',
+  'RNKRN',
+  'RKNNR',
+  'RKNRN',
+  'RKRNN',
+];
+
+// Start position number `id` (0-959); 518 is the standard setup
+export function chess960Fen(id: number): string {
+  const rank: string[] = Array(8).fill('');
+  let n = id;
+  rank[[1, 3, 5, 7][n % 4]] = 'B'; // light-squared bishop
+  n = Math.floor(n / 4);
+  rank[[0, 2, 4, 6][n % 4]] = 'B'; // dark-squared bishop
+  n = Math.floor(n / 4);
+  const free = () => rank.flatMap((piece, file) => (piece ? [] : [file]));
+  rank[free()[n % 6]] = 'Q';
+  n = Math.floor(n / 6);
+  const rest = free();
+  [...KNIGHT_TABLE[n]].forEach((piece, i) => (rank[rest[i]] = piece));
+
+  const back = rank.join('');
+  return `${back.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${back} w KQkq - 0 1`;
+}
+
+export function randomChess960Fen(random = Math.random): string {
+  return chess960Fen(Math.floor(random() * 960));
+}
+
+// chess.js only castles with the king on e1/e8 and the rooks in the corners.
+// Chess960 games get their castling through the same internals chess.js
+// uses for its own moves, so history, SAN ("O-O"), undo and repetition all
+// keep working. A castle is given as the king moving onto its own rook.
+// The public API can't do this: move() only plays moves chess.js generated
+// itself, and rebuilding the position with put() or load() after a castle
+// would wipe the history those features read.
+
+type InternalMove = {
+  color: Color;
+  from: number;
+  to: number;
+  piece: PieceSymbol;
+  flags: number;
+  captured?: PieceSymbol;
+  promotion?: PieceSymbol;
+  castle?: { kingTo: number; rookFrom: number; rookTo: number };
+};
+
+type MoveOptions = { legal?: boolean; piece?: PieceSymbol; square?: string };
+
+// The private parts of chess.js castling has to reach
+interface Engine {
+  _board: ({ type: PieceSymbol; color: Color } | undefined)[];
+  _kings: Record<Color, number>;
+  _turn: Color;
+  _castling: Record<Color, number>;
+  _epSquare: number;
+  _halfMoves: number;
+  _moveNumber: number;
+  _hash: bigint;
+  _history: {
+    move: InternalMove;
+    kings: Record<Color, number>;
+    turn: Color;
+    castling: Record<Color, number>;
+    epSquare: number;
+    halfMoves: number;
+    moveNumber: number;
+  }[];
+  _moves(options?: MoveOptions): InternalMove[];
+  _makeMove(move: InternalMove): void;
+  _undoMove(): InternalMove | null;
+  _push(move: InternalMove): void;
+  _attacked(color: Color, square: number): boolean;
+  _isKingAttacked(color: Color): boolean;
+  _computeHash(): bigint;
+}
+
+const INTERNALS: (keyof Engine)[] = [
+  '_board',
+  '_kings',
+  '_turn',
+  '_castling',
+  '_epSquare',
+  '_halfMoves',
+  '_moveNumber',
+  '_hash',
+  '_history',
+  '_moves',
+  '_makeMove',
+  '_undoMove',
+  '_push',
+  '_attacked',
+  '_isKingAttacked',
+  '_computeHash',
+];
+
+// chess.js squares: a8 = 0 … h1 = 119, sixteen to a rank
+const square = (rank: number, file: number) => (8 - rank) * 16 + file;
+const fileOf = (sq: number) => sq & 7;
+const other = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+
+let supported: boolean | null = null; // checked on first use
+
+// Play Chess960 castling on `chess` from now on. The castling rooks are the
+// outermost ones beside each king, as KQkq means in X-FEN. Throws when this
+// chess.js can't; check chess960Supported() before offering the variant.
+export function enableChess960Castling(chess: Chess): Chess {
+  if (!chess960Supported()) {
+    throw new Error('Chess960 castling does not work with this chess.js');
+  }
+  return patchCastling(chess);
+}
+
+// Whether the internals below are where this file expects them. Checked
+// once, the first time a Chess960 game is wanted, so a chess.js upgrade
+// that moves them costs the variant rather than the whole app.
+export function chess960Supported(): boolean {
+  if (supported === null) {
+    try {
+      verifyChess960Support();
+      supported = true;
+    } catch {
+      supported = false;
+    }
+  }
+  return supported;
+}
+
+function patchCastling(chess: Chess): Chess {
+  const engine = chess as unknown as Engine;
+  const rooks = castlingRooks(engine);
+  const moves = engine._moves.bind(engine);
+  const makeMove = engine._makeMove.bind(engine);
+  const undoMove = engine._undoMove.bind(engine);
+
+  engine._moves = (options = {}) => {
+    // Hide the rights so chess.js adds none of its own castles
+    const { _castling: rights, _hash: hash } = engine;
+    engine._castling = { w: 0, b: 0 };
+    let list: InternalMove[];
+    try {
+      list = moves(options);
+    } finally {
+      engine._castling = rights;
+      engine._hash = hash;
+    }
+    const king = engine._kings[engine._turn];
+    if (options.piece && options.piece !== 'k') return list;
+    if (options.square && squareIndex(options.square) !== king) return list;
+    return [...list, ...castles(engine, rooks, options.legal !== false)];
+  };
+
+  engine._makeMove = (move) => {
+    if (move.castle) return castle(engine, move);
+    if (move.flags & NULL_MOVE) return makeMove(move);
+    // chess.js drops rights by the corner squares; keep them by our rooks
+    const us = move.color;
+    const rights = { ...engine._castling };
+    makeMove(move);
+    if (move.piece === 'k') rights[us] = 0;
+    for (const side of ['k', 'q'] as CastleSide[]) {
+      if (move.from === rooks[us][side]) rights[us] &= ~SIDE_FLAG[side];
+      if (move.to === rooks[other(us)][side]) {
+        rights[other(us)] &= ~SIDE_FLAG[side];
+      }
+    }
+    engine._castling = rights;
+    engine._hash = engine._computeHash();
+  };
+
+  engine._undoMove = () => {
+    const last = engine._history[engine._history.length - 1]?.move;
+    return last?.castle ? uncastle(engine) : undoMove();
+  };
+  return chess;
+}
+
+// Everything above leans on chess.js internals, so the package is pinned.
+// Throws, saying what broke, if an upgrade has moved them.
+export function verifyChess960Support(): void {
+  try {
+    const plain = new Chess('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    const engine = plain as unknown as Engine;
+    const missing = INTERNALS.filter((name) => !(name in engine));
+    if (missing.length) throw new Error(`missing ${missing.join(', ')}`);
+    plain.move('O-O');
+    if (engine._history[engine._history.length - 1]?.move.flags !== KSIDE_CASTLE) {
+      throw new Error('castling flags changed');
+    }
+
+    const fen = 'rk5r/8/8/8/8/8/8/RK5R w KQkq - 0 1';
+    const chess = patchCastling(new Chess(fen));
+    chess.move({ from: 'b1', to: 'a1' });
+    if (chess.get('c1')?.type !== 'k' || chess.get('d1')?.type !== 'r') {
+      throw new Error('castling left the pieces in the wrong place');
+    }
+    chess.undo();
+    if (chess.fen() !== fen) throw new Error('undoing a castle changed the position');
+  } catch (err) {
+    throw new Error(
+      `Chess960 castling does not work with this chess.js: ${(err as Error).message}`,
+    );
+  }
+}
+
+function squareIndex(name: string): number {
+  return square(Number(name[1]), name.charCodeAt(0) - 97);
+}
+
+// Each side's castling rook squares, read from the current position
+function castlingRooks(engine: Engine): Record<Color, Record<CastleSide, number>> {
+  const find = (color: Color): Record<CastleSide, number> => {
+    const rank = color === 'w' ? 1 : 8;
+    const king = engine._kings[color];
+    const rookFiles = [0, 1, 2, 3, 4, 5, 6, 7].filter((file) => {
+      const piece = engine._board[square(rank, file)];
+      return piece?.type === 'r' && piece.color === color;
+    });
+    const left = rookFiles.filter((f) => f < fileOf(king));
+    const right = rookFiles.filter((f) => f > fileOf(king));
+    return {
+      q: left.length && king !== EMPTY ? square(rank, left[0]) : EMPTY,
+      k: right.length && king !== EMPTY ? square(rank, right.pop()!) : EMPTY,
+    };
+  };
+  return { w: find('w'), b: find('b') };
+}
+
+// Castles open to the side to move: every square the king and rook cross
+// is empty but for the two of them, and the king never passes through check
+function castles(
+  engine: Engine,
+  rooks: Record<Color, Record<CastleSide, number>>,
+  legal: boolean,
+): InternalMove[] {
+  const us = engine._turn;
+  const them = other(us);
+  const king = engine._kings[us];
+  const found: InternalMove[] = [];
+  if (king === EMPTY) return found;
+
+  for (const side of ['k', 'q'] as CastleSide[]) {
+    const rookFrom = rooks[us][side];
+    if (!(engine._castling[us] & SIDE_FLAG[side]) || rookFrom === EMPTY) continue;
+    const rook = engine._board[rookFrom];
+    if (rook?.type !== 'r' || rook.color !== us) continue;
+
+    const base = king - fileOf(king);
+    const kingTo = base + (side === 'k' ? 6 : 2);
+    const rookTo = base + (side === 'k' ? 5 : 3);
+    const crossed = [...span(king, kingTo), ...span(rookFrom, rookTo)];
+    if (crossed.some((sq) => sq !== king && sq !== rookFrom && engine._board[sq])) {
+      continue;
+    }
+    const move: InternalMove = {
+      color: us,
+      from: king,
+      to: rookFrom,
+      piece: 'k',
+      flags: SIDE_FLAG[side],
+      castle: { kingTo, rookFrom, rookTo },
+    };
+    if (legal) {
+      if (span(king, kingTo).some((sq) => engine._attacked(them, sq))) continue;
+      // A rook moving off the back rank can uncover the king's new square
+      engine._makeMove(move);
+      const safe = !engine._isKingAttacked(us);
+      engine._undoMove();
+      if (!safe) continue;
+    }
+    found.push(move);
+  }
+  return found;
+}
+
+// Squares from `a` to `b` inclusive, along one rank
+function span(a: number, b: number): number[] {
+  const squares: number[] = [];
+  for (let sq = Math.min(a, b); sq <= Math.max(a, b); sq++) squares.push(sq);
+  return squares;
+}
+
+function castle(engine: Engine, move: InternalMove): void {
+  const us = move.color;
+  const { kingTo, rookFrom, rookTo } = move.castle!;
+  engine._push(move);
+  const king = engine._board[move.from];
+  const rook = engine._board[rookFrom];
+  delete engine._board[move.from];
+  delete engine._board[rookFrom];
+  engine._board[kingTo] = king;
+  engine._board[rookTo] = rook;
+  engine._kings[us] = kingTo;
+  engine._castling[us] = 0;
+  engine._epSquare = EMPTY;
+  engine._halfMoves++;
+  if (us === 'b') engine._moveNumber++;
+  engine._turn = other(us);
+  engine._hash = engine._computeHash();
+}
+
+function uncastle(engine: Engine): InternalMove {
+  const old = engine._history.pop()!;
+  const move = old.move;
+  const { kingTo, rookFrom, rookTo } = move.castle!;
+  engine._kings = old.kings;
+  engine._turn = old.turn;
+  engine._castling = old.castling;
+  engine._epSquare = old.epSquare;
+  engine._halfMoves = old.halfMoves;
+  engine._moveNumber = old.moveNumber;
+  const king = engine._board[kingTo];
+  const rook = engine._board[rookTo];
+  delete engine._board[kingTo];
+  delete engine._board[rookTo];
+  engine._board[move.from] = king;
+  engine._board[rookFrom] = rook;
+  engine._hash = engine._computeHash();
+  return move;
+}
@@ -0,0 +1,119 @@
+import { Chess } from 'chess.js';
+import { enableChess960Castling } from './chess960';
+import {
+  HORDE_FEN,
+  checksGiven,
+  isPlayableFen,
+  loadVariantPgn,
+  newVariantGame,
+  pgnVariant,
+  variantBadge,
+  variantChess,
+  variantEnding,
+  variantName,
+} from './variants';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+function play(chess: Chess, moves: string[]): Chess {
+  for (const san of moves) chess.move(san);
+  return chess;
+}
+
+describe('variants', () => {
+  it('starts each variant from its own position', () => {
+    expect(newVariantGame('standard').fen()).toBe(START);
+    expect(newVariantGame('threeCheck').fen()).toBe(START);
+    expect(newVariantGame('horde').fen()).toBe(HORDE_FEN);
+    expect(newVariantGame('chess960', () => 0).fen()).toBe(
+      'bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1',
+    );
+    expect(variantName('kingOfTheHill')).toBe('King of the Hill');
+  });
+
+  it('accepts a Horde position only without a white king', () => {
+    expect(isPlayableFen(HORDE_FEN)).toBeTrue();
+    expect(isPlayableFen(START)).toBeTrue();
+    expect(isPlayableFen('4k3/8/8/8/8/8/8/8 w - - 0 1')).toBeTrue();
+    expect(isPlayableFen('8/8/8/8/8/8/8/4K3 w - - 0 1')).toBeFalse();
+    expect(isPlayableFen('4k3/8/8/8/8/8/8/4p3 w - - 0 1')).toBeFalse();
+    expect(() => variantChess('horde', '8/8/8/8/8/8/8/8 w - - 0 1')).toThrow();
+  });
+
+  it('ends King of the Hill when a king reaches the centre', () => {
+    const chess = play(variantChess('kingOfTheHill'), [
+      'e3', 'a6', 'Ke2', 'a5', 'Kd3', 'h6',
+    ]);
+    expect(variantEnding(chess, 'kingOfTheHill')).toBeNull();
+
+    chess.move('Ke4');
+    expect(variantEnding(chess, 'kingOfTheHill')).toEqual({
+      winner: 'white',
+      reason: 'king-of-the-hill',
+    });
+  });
+
+  it('ends Three-check on the third check', () => {
+    const chess = play(variantChess('threeCheck'), [
+      'e4', 'd5', 'Bb5+', 'c6', 'Bxc6+', 'Nxc6',
+    ]);
+    expect(checksGiven(chess)).toEqual({ white: 2, black: 0 });
+    expect(variantEnding(chess, 'threeCheck')).toBeNull();
+
+    chess.move('Qh5');
+    chess.move('Qd7');
+    chess.move('Qxf7+');
+    expect(variantEnding(chess, 'threeCheck')).toEqual({
+      winner: 'white',
+      reason: 'three-check',
+    });
+  });
+
+  it('labels variant games with the checks given in Three-check', () => {
+    const chess = play(variantChess('threeCheck'), ['e4', 'd5', 'Bb5+']);
+    expect(variantBadge('threeCheck', chess)).toBe('Three-check · 1–0');
+    expect(variantBadge('horde', chess)).toBe('Horde');
+    expect(variantBadge('standard', chess)).toBe('');
+  });
+
+  it('ends Horde when the last white piece is captured', () => {
+    const chess = variantChess('horde', '4k3/8/8/8/8/8/3P4/8 b - - 0 1');
+    expect(chess.moves()).toContain('Kd7');
+    expect(variantEnding(chess, 'horde')).toBeNull();
+
+    chess.load('4k3/8/8/8/8/8/8/3r4 w - - 0 1');
+    expect(variantEnding(chess, 'horde')).toEqual({
+      winner: 'black',
+      reason: 'horde-captured',
+    });
+  });
+
+  it('plays the horde from its first rank', () => {
+    const chess = variantChess('horde');
+    expect(chess.moves()).toContain('d5');
+    chess.move('a5');
+    expect(chess.turn()).toBe('b');
+    expect(variantEnding(chess, 'standard')).toBeNull();
+  });
+
+  it('reloads the PGN chess.js writes for a variant game', () => {
+    const horde = play(variantChess('horde'), ['e5', 'd6', 'exd6', 'cxd6']);
+    expect(loadVariantPgn(horde.pgn(), 'horde').fen()).toBe(horde.fen());
+
+    const fen = 'rk4rq/pppppppp/8/8/8/8/PPPPPPPP/RK4RQ w KQkq - 0 1';
+    const chess960 = play(enableChess960Castling(new Chess(fen)), ['O-O', 'O-O-O']);
+    expect(loadVariantPgn(chess960.pgn(), 'chess960').history()).toEqual([
+      'O-O',
+      'O-O-O',
+    ]);
+  });
+
+  it('reads the variant from the PGN header', () => {
+    const horde = variantChess('horde');
+    horde.setHeader('Variant', 'Horde');
+
+    expect(pgnVariant(horde.pgn())).toBe('horde');
+    expect(pgnVariant(new Chess().pgn())).toBe('standard');
+    expect(pgnVariant('[Variant "Crazyhouse"]\n\n1. e4 *')).toBeNull();
+  });
+});
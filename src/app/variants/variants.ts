@@ -0,0 +1,173 @@
+import { Chess, Move, validateFen } from 'chess.js';
+import { GameResult, Role } from '../types/messages';
+import { Variant } from '../types/variant';
+import {
+  chess960Supported,
+  enableChess960Castling,
+  randomChess960Fen,
+} from './chess960';
+
+// Offered when creating a game; `name` is also the PGN Variant header
+export const VARIANTS: { id: Variant; name: string; rules: string }[] = [
+  { id: 'standard', name: 'Standard', rules: 'Plain chess.' },
+  {
+    id: 'chess960',
+    name: 'Chess960',
+    rules: 'Shuffled back rank; castle by moving the king onto its rook.',
+  },
+  {
+    id: 'kingOfTheHill',
+    name: 'King of the Hill',
+    rules: 'Bring your king to one of the four centre squares to win.',
+  },
+  {
+    id: 'threeCheck',
+    name: 'Three-check',
+    rules: 'Check the opposing king three times to win.',
+  },
+  {
+    id: 'horde',
+    name: 'Horde',
+    rules: 'Black wins by capturing every white pawn; White wins by mate.',
+  },
+];
+
+// chess.js lets only second-rank pawns step two, so the horde's first-rank
+// pawns advance one square at a time
+export const HORDE_FEN =
+  'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+const HILL = ['d4', 'e4', 'd5', 'e5'];
+const CHECKS_TO_WIN = 3;
+const NOT_A_MOVE = /^(\d+\.+|1-0|0-1|1\/2-1\/2|\*)$/; // move numbers and results
+
+export function variantName(variant: Variant): string {
+  return VARIANTS.find((v) => v.id === variant)?.name ?? 'Standard';
+}
+
+// Badge for anything but standard chess, with the checks so far in Three-check
+export function variantBadge(variant: Variant, chess: Chess): string {
+  if (variant === 'standard') return '';
+  if (variant !== 'threeCheck') return variantName(variant);
+  const checks = checksGiven(chess);
+  return `${variantName(variant)} · ${checks.white}–${checks.black}`;
+}
+
+export function isVariant(value: unknown): value is Variant {
+  return VARIANTS.some((v) => v.id === value);
+}
+
+// The variant a PGN's Variant header names; standard when there is none,
+// null for one this app doesn't play
+export function pgnVariant(pgn: string): Variant | null {
+  const name = /\[Variant\s+"([^"]*)"\]/.exec(pgn)?.[1];
+  if (!name) return 'standard';
+  return VARIANTS.find((v) => v.name === name)?.id ?? null;
+}
+
+// Whether new games of this variant can be played with this chess.js
+export function variantAvailable(variant: Variant): boolean {
+  return variant !== 'chess960' || chess960Supported();
+}
+
+// A fresh game; Chess960 draws one of its 960 back ranks
+export function newVariantGame(variant: Variant, random = Math.random): Chess {
+  if (variant === 'chess960') {
+    return variantChess(variant, randomChess960Fen(random));
+  }
+  return variantChess(variant, variant === 'horde' ? HORDE_FEN : undefined);
+}
+
+// chess.js set up for a variant's rules at `fen` (the usual start when
+// absent); throws on a position the variant can't be in
+export function variantChess(variant: Variant, fen?: string): Chess {
+  if (variant === 'chess960') return enableChess960Castling(new Chess(fen));
+  if (variant !== 'horde') return fen ? new Chess(fen) : new Chess();
+
+  // White has no king, which chess.js refuses unless told not to check
+  const start = fen ?? HORDE_FEN;
+  if (!isPlayableFen(start)) throw new Error(`Invalid FEN: ${start}`);
+  const chess = new Chess(start, { skipValidation: true });
+  const load = chess.load.bind(chess);
+  chess.load = (next, options) => load(next, { ...options, skipValidation: true });
+  return chess;
+}
+
+// A game exported by chess.js, replayed under the variant's rules. chess.js
+// can't load a kingless horde or replay Chess960 castles itself, so the
+// start and the moves are read out of the PGN text. Throws if unplayable.
+export function loadVariantPgn(pgn: string, variant: Variant): Chess {
+  if (variant === 'standard') {
+    const chess = new Chess();
+    chess.loadPgn(pgn);
+    return chess;
+  }
+  const fen = pgn.match(/\[FEN "([^"]+)"\]/)?.[1];
+  const chess = variantChess(variant, fen);
+  const tokens = pgn.replace(/\[[^\]]*\]|\{[^}]*\}/g, ' ').split(/\s+/);
+  for (const token of tokens) {
+    if (token && !NOT_A_MOVE.test(token)) chess.move(token);
+  }
+  return chess;
+}
+
+// Any position a game here can reach: a standard one, or a Horde one with
+// no white king and white pawns on the first rank
+export function isPlayableFen(fen: string): boolean {
+  const check = validateFen(fen);
+  if (check.ok) return true;
+  // chess.js checks the kings last but for the pawns on the edge ranks
+  const placement = fen.split(' ')[0];
+  return (
+    check.error === 'Invalid FEN: missing white king' &&
+    placement.split('k').length === 2 &&
+    !/p/.test(placement.split('/')[7]) &&
+    !/P/.test(placement.split('/')[0])
+  );
+}
+
+// Castles open to the side to move. A dragged king can only step two
+// squares, so Chess960 boards offer these as buttons instead.
+export function castleMoves(chess: Chess): Move[] {
+  return chess
+    .moves({ verbose: true })
+    .filter((m) => m.isKingsideCastle() || m.isQueensideCastle());
+}
+
+// Checks each side has given so far
+export function checksGiven(chess: Chess): Record<Role, number> {
+  const given = { white: 0, black: 0 };
+  for (const move of chess.history({ verbose: true })) {
+    if (/[+#]$/.test(move.san)) given[move.color === 'w' ? 'white' : 'black']++;
+  }
+  return given;
+}
+
+// Wins only the variant has; null when its own rules don't end the game
+export function variantEnding(chess: Chess, variant: Variant): GameResult | null {
+  switch (variant) {
+    case 'kingOfTheHill':
+      for (const [color, role] of [['w', 'white'], ['b', 'black']] as const) {
+        const [king] = chess.findPiece({ type: 'k', color });
+        if (HILL.includes(king)) return { winner: role, reason: 'king-of-the-hill' };
+      }
+      return null;
+
+    case 'threeCheck': {
+      const given = checksGiven(chess);
+      for (const role of ['white', 'black'] as Role[]) {
+        if (given[role] >= CHECKS_TO_WIN) {
+          return { winner: role, reason: 'three-check' };
+        }
+      }
+      return null;
+    }
+
+    case 'horde': {
+      const white = chess.board().flat().some((p) => p?.color === 'w');
+      return white ? null : { winner: 'black', reason: 'horde-captured' };
+    }
+
+    default:
+      return null;
+  }
+}
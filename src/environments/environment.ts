@@ -1,5 +1,12 @@
 export const environment = {
   production: false,
+  // Online backend: 'firebase' (Realtime Database) or 'local' (this browser only)
+  transport: 'firebase' as 'firebase' | 'local',
+  // Online: how long an opponent must be disconnected before the game can be claimed
+  abandonTimeoutSec: 60,
+  // Other sites allowed to embed /embed-board (e.g. 'https://club.example.com');
+  // this app's own origin is always allowed
+  embedOrigins: [] as string[],
   firebase: {
     apiKey: '…',
     authDomain: '…',